@@ -1,36 +1,173 @@
-import React, { useState, useCallback, useRef } from 'react';
-import { transcribeAudio, translateText } from './services/geminiService';
-import { fileToBase64 } from './utils/audioUtils';
-import { Translation, Language } from './types';
-import { LANGUAGES } from './constants';
+import React, {
+  useState,
+  useCallback,
+  useRef,
+  useEffect,
+  useMemo,
+} from 'react';
+import { getSpeechProvider } from './services/speechProvider';
+import { isAbortError } from './utils/asyncUtils';
+import { describeError } from './services/serviceErrors';
+import {
+  Translation,
+  Language,
+  Transcript,
+  ChunkProgress,
+  ProjectSnapshot,
+  SerbianScript,
+  TextVersion,
+  TranscriptSegment,
+  NarrationTake,
+  GlossaryEntry,
+} from './types';
+import { translateInBatches } from './services/translationBatcher';
+import { transcribeLongAudio } from './services/chunkedTranscription';
+import {
+  LiveTranscriber,
+  LiveTranscriptionUpdate,
+  createLiveTranscriber,
+} from './services/liveTranscription';
+import {
+  createProjectId,
+  loadProject,
+  requestPersistentStorage,
+  saveProject,
+} from './services/projectStore';
+import {
+  createSessionBundle,
+  readSessionBundle,
+} from './services/sessionBundle';
+import {
+  estimateTranscriptionUsage,
+  estimateTranslationUsage,
+} from './services/usageTracking';
+import { downloadBlob } from './utils/downloadUtils';
+import { getAudioDuration } from './utils/audioUtils';
+import { confirmWithinBudget, setUsageProject } from './utils/usageStore';
+import {
+  AUTO_DETECT_LANGUAGE,
+  LANGUAGES,
+  LIVE_TIMESLICE_MS,
+  PROJECT_AUTOSAVE_DELAY_MS,
+} from './constants';
+import {
+  TRANSCRIPT_HISTORY_KEY,
+  appendVersion,
+  createVersion,
+  translationHistoryKey,
+} from './utils/versionHistory';
 import Loader from './components/Loader';
 import TranslationCard from './components/TranslationCard';
+import SubtitleExportButtons from './components/SubtitleExportButtons';
+import LanguageSelector from './components/LanguageSelector';
+import ChunkProgressBar from './components/ChunkProgressBar';
+import SegmentText from './components/SegmentText';
+import SpeakerNamesEditor from './components/SpeakerNamesEditor';
+import SegmentEditor from './components/SegmentEditor';
+import ScriptToggle from './components/ScriptToggle';
+import VersionHistory from './components/VersionHistory';
+import ProjectSidebar from './components/ProjectSidebar';
+import AudioPreprocessor from './components/AudioPreprocessor';
+import AudioPlayer from './components/AudioPlayer';
+import TextImport from './components/TextImport';
+import GlossaryManager from './components/GlossaryManager';
+import UsagePanel from './components/UsagePanel';
+import { loadGlossary, saveGlossary } from './utils/glossary';
+import {
+  getPreferredSerbianScript,
+  setPreferredSerbianScript,
+  transliterateText,
+} from './utils/serbianScript';
+import { useI18n } from './i18n/I18nContext';
+import { UI_LOCALES, UiLocale } from './i18n';
+
+interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+}
 
 const App: React.FC = () => {
+  const { t, locale, setLocale, languageName } = useI18n();
+  const [project, setProject] = useState<ProjectMeta | null>(null);
+  const [projectRevision, setProjectRevision] = useState(0);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [isExportingBundle, setIsExportingBundle] = useState(false);
+  // Set when a project was just opened, so loading it doesn't count as an edit.
+  const skipNextSaveRef = useRef(false);
   const [audioFile, setAudioFile] = useState<File | null>(null);
+  // The file as recorded or uploaded, while `audioFile` holds a processed copy.
+  const [originalAudioFile, setOriginalAudioFile] = useState<File | null>(null);
+  const [isPreprocessingOpen, setIsPreprocessingOpen] = useState(false);
+  const [isTextImportOpen, setIsTextImportOpen] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
 
   // Refs for MediaRecorder
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const mediaStreamRef = useRef<MediaStream | null>(null);
+  const [isLiveMode, setIsLiveMode] = useState(false);
+  const [liveTranslationCode, setLiveTranslationCode] = useState('');
+  const [liveUpdate, setLiveUpdate] = useState<LiveTranscriptionUpdate | null>(
+    null
+  );
+  const liveTranscriberRef = useRef<LiveTranscriber | null>(null);
+  // Set when a live recording stops, so its file gets a full transcription.
+  const [finalizeRecording, setFinalizeRecording] = useState(false);
 
+  const [sourceLanguageCode, setSourceLanguageCode] =
+    useState<string>(AUTO_DETECT_LANGUAGE);
+  // Requested from the transcription model and used to show Serbian transcripts.
+  const [serbianScript, setSerbianScript] = useState<SerbianScript>(
+    getPreferredSerbianScript
+  );
   const [isLoadingTranscription, setIsLoadingTranscription] = useState(false);
-  const [transcription, setTranscription] = useState<string>('');
-
-  const [isLoadingTranslation, setIsLoadingTranslation] = useState(false);
-  const [selectedLanguage, setSelectedLanguage] = useState<Language | null>(
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress[]>([]);
+  const transcriptionAbortRef = useRef<AbortController | null>(null);
+  // Set from the click on, so a double click can't start a second run while
+  // the first one still reads the recording's duration.
+  const isTranscribingRef = useRef(false);
+  const [transcription, setTranscription] = useState<Transcript | null>(
     null
   );
+  // Set when some of the transcription came from the result cache.
+  const [transcriptFromCache, setTranscriptFromCache] = useState(false);
+
+  const [isLoadingTranslation, setIsLoadingTranslation] = useState(false);
+  const translationAbortRef = useRef<AbortController | null>(null);
+  const [selectedLanguages, setSelectedLanguages] = useState<Language[]>([]);
   const [translations, setTranslations] = useState<Translation[]>([]);
+  const [failedLanguages, setFailedLanguages] = useState<Language[]>([]);
+  const [retryingCodes, setRetryingCodes] = useState<string[]>([]);
+  // Languages whose current translation came from the result cache.
+  const [cachedCodes, setCachedCodes] = useState<string[]>([]);
+  // Transcript text the current translations were made from.
+  const [translatedFromText, setTranslatedFromText] = useState('');
+  const [history, setHistory] = useState<Record<string, TextVersion[]>>({});
+  const [isEditingTranscript, setIsEditingTranscript] = useState(false);
+  const [isTranscriptHistoryOpen, setIsTranscriptHistoryOpen] = useState(false);
+  const [narrations, setNarrations] = useState<
+    Record<string, NarrationTake[]>
+  >({});
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>(loadGlossary);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
   const [error, setError] = useState<string>('');
-  const [isDropdownOpen, setIsDropdownOpen] = useState(false);
 
   const resetState = (clearFile = true) => {
     if (clearFile) setAudioFile(null);
-    setTranscription('');
+    setOriginalAudioFile(null);
+    setProject(null);
+    setNarrations({});
+    setTranscription(null);
     setTranslations([]);
-    setSelectedLanguage(null);
+    setFailedLanguages([]);
+    setSelectedLanguages([]);
+    setHistory({});
+    setIsEditingTranscript(false);
+    setLiveUpdate(null);
+    setTranscriptFromCache(false);
+    setCachedCodes([]);
     setError('');
   };
 
@@ -42,6 +179,25 @@ const App: React.FC = () => {
     }
   };
 
+  // Imported text stands in for a transcription; there is no audio to go
+  // with it, so the session continues straight to translation.
+  const handleTextImport = (transcript: Transcript, name: string) => {
+    resetState();
+    setIsTextImportOpen(false);
+    setTranscription(transcript);
+    setHistory({
+      [TRANSCRIPT_HISTORY_KEY]: [
+        createVersion(
+          t('history.textImport'),
+          transcript.text,
+          transcript.segments
+        ),
+      ],
+    });
+    setProject({ id: createProjectId(), name, createdAt: Date.now() });
+    requestPersistentStorage();
+  };
+
   const cleanupRecording = useCallback(() => {
     if (mediaStreamRef.current) {
       mediaStreamRef.current.getTracks().forEach((track) => track.stop());
@@ -50,6 +206,8 @@ const App: React.FC = () => {
     if (mediaRecorderRef.current) {
       mediaRecorderRef.current = null;
     }
+    liveTranscriberRef.current?.stop();
+    liveTranscriberRef.current = null;
     audioChunksRef.current = [];
   }, []);
 
@@ -64,9 +222,24 @@ const App: React.FC = () => {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       mediaStreamRef.current = stream;
       mediaRecorderRef.current = new MediaRecorder(stream);
+      const live = isLiveMode;
+      if (live) {
+        liveTranscriberRef.current = createLiveTranscriber(
+          getSpeechProvider(),
+          {
+            sourceLanguageCode,
+            serbianScript,
+            translateTo: LANGUAGES.find(
+              (lang) => lang.code === liveTranslationCode
+            ),
+            onUpdate: setLiveUpdate,
+          }
+        );
+      }
 
       mediaRecorderRef.current.ondataavailable = (event) => {
         audioChunksRef.current.push(event.data);
+        liveTranscriberRef.current?.push(event.data);
       };
 
       mediaRecorderRef.current.onstop = () => {
@@ -76,14 +249,15 @@ const App: React.FC = () => {
           type: mimeType,
         });
         setAudioFile(recordedFile);
+        setOriginalAudioFile(null);
+        setFinalizeRecording(live);
         cleanupRecording();
       };
 
-      mediaRecorderRef.current.start();
+      // Live mode needs the audio in slices while recording is still going.
+      mediaRecorderRef.current.start(live ? LIVE_TIMESLICE_MS : undefined);
     } catch (err) {
-      setError(
-        'Nije moguće pristupiti mikrofonu. Proverite dozvole u pretraživaču.'
-      );
+      setError(t('error.microphone'));
       console.error('Error accessing microphone:', err);
       setIsRecording(false);
       cleanupRecording();
@@ -97,67 +271,562 @@ const App: React.FC = () => {
     setIsRecording(false);
   };
 
-  const handleBatchTranscription = useCallback(async () => {
-    if (!audioFile) return;
-
+  const handleBatchTranscription = useCallback(async (forceRefresh = false) => {
+    if (!audioFile || isTranscribingRef.current) return;
+    isTranscribingRef.current = true;
     setIsLoadingTranscription(true);
-    setTranscription('');
+    // Recordings whose length can't be read go ahead without a warning.
+    const duration = await getAudioDuration(audioFile);
+    if (duration !== null) {
+      const estimate = estimateTranscriptionUsage(
+        getSpeechProvider().models.transcription,
+        duration
+      );
+      if (!confirmWithinBudget([estimate], t)) {
+        isTranscribingRef.current = false;
+        setIsLoadingTranscription(false);
+        return;
+      }
+    }
+    // The id is settled up front so the usage is counted toward the project.
+    const projectId = project?.id ?? createProjectId();
+    setUsageProject({ id: projectId, name: project?.name ?? audioFile.name });
+
+    setTranscription(null);
+    setTranscriptFromCache(false);
+    setCachedCodes([]);
     setTranslations([]);
-    setSelectedLanguage(null);
+    setFailedLanguages([]);
+    setSelectedLanguages([]);
+    setHistory({});
+    setNarrations({});
+    setIsEditingTranscript(false);
     setError('');
+    setChunkProgress([]);
+
+    const controller = new AbortController();
+    transcriptionAbortRef.current = controller;
 
     try {
-      const audioBase64 = await fileToBase64(audioFile);
-      const result = await transcribeAudio(audioBase64, audioFile.type);
+      const result = await transcribeLongAudio(getSpeechProvider(), audioFile, {
+        sourceLanguageCode,
+        serbianScript,
+        signal: controller.signal,
+        forceRefresh,
+        onCacheHit: () => setTranscriptFromCache(true),
+        onProgress: setChunkProgress,
+      });
       setTranscription(result);
+      setLiveUpdate(null);
+      setHistory({
+        [TRANSCRIPT_HISTORY_KEY]: [
+          createVersion(
+            t('history.transcription'),
+            result.text,
+            result.segments
+          ),
+        ],
+      });
+      // Re-running transcription stays in the same project.
+      if (!project) {
+        setProject({
+          id: projectId,
+          name: audioFile.name,
+          createdAt: Date.now(),
+        });
+        requestPersistentStorage();
+      }
     } catch (err) {
-      setError(
-        err instanceof Error ? err.message : 'Došlo je do nepoznate greške.'
-      );
+      if (!isAbortError(err)) {
+        setError(describeError(err, t('error.unknown'), t));
+      }
     } finally {
+      transcriptionAbortRef.current = null;
+      isTranscribingRef.current = false;
       setIsLoadingTranscription(false);
+      setChunkProgress([]);
+    }
+  }, [audioFile, sourceLanguageCode, serbianScript, project, t]);
+
+  // The live transcript is provisional; the finished recording is transcribed
+  // in full to get reliable timing and speakers.
+  useEffect(() => {
+    if (!finalizeRecording || !audioFile) return;
+    setFinalizeRecording(false);
+    handleBatchTranscription();
+  }, [finalizeRecording, audioFile, handleBatchTranscription]);
+
+  const handleCancelTranscription = () => {
+    transcriptionAbortRef.current?.abort();
+  };
+
+  const handleSerbianScriptChange = (script: SerbianScript) => {
+    setSerbianScript(script);
+    setPreferredSerbianScript(script);
+  };
+
+  // Transcripts stay as transcribed; Serbian ones are shown and exported in
+  // the chosen script.
+  const displayedTranscript = useMemo(
+    () =>
+      transcription?.languageCode === 'sr'
+        ? transliterateText(transcription, serbianScript)
+        : transcription,
+    [transcription, serbianScript]
+  );
+
+  // Names live on the transcript; cards and subtitle exports look them up by id.
+  const handleRenameSpeaker = (id: string, name: string) => {
+    setTranscription((current) =>
+      current
+        ? {
+            ...current,
+            speakers: current.speakers.map((speaker) =>
+              speaker.id === id ? { ...speaker, name } : speaker
+            ),
+          }
+        : current
+    );
+  };
+
+  const recordTranslationVersions = (results: Translation[], label: string) => {
+    setHistory((current) =>
+      results.reduce(
+        (acc, translation) =>
+          appendVersion(
+            acc,
+            translationHistoryKey(translation.languageCode),
+            createVersion(label, translation.text, translation.segments)
+          ),
+        current
+      )
+    );
+  };
+
+  const runTranslation = useCallback(
+    async (languages: Language[]) => {
+      if (!transcription || languages.length === 0) return;
+      setIsLoadingTranslation(true);
+      setError('');
+      setTranslations([]);
+      setFailedLanguages([]);
+      setCachedCodes([]);
+      const controller = new AbortController();
+      translationAbortRef.current = controller;
+      try {
+        const result = await translateInBatches(
+          getSpeechProvider(),
+          transcription,
+          languages,
+          {
+            glossary,
+            signal: controller.signal,
+            onCacheHit: ({ languageCode }) => {
+              if (languageCode) {
+                setCachedCodes((codes) => [...codes, languageCode]);
+              }
+            },
+          }
+        );
+        setTranslations(result.translations);
+        setFailedLanguages(result.failed);
+        setTranslatedFromText(transcription.text);
+        recordTranslationVersions(
+          result.translations,
+          t('history.translation')
+        );
+      } catch (err) {
+        if (!isAbortError(err)) {
+          setError(describeError(err, t('error.unknown'), t));
+        }
+      } finally {
+        translationAbortRef.current = null;
+        setIsLoadingTranslation(false);
+      }
+    },
+    [transcription, glossary, t]
+  );
+
+  const handleTranslate = () => {
+    if (!transcription) return;
+    const estimate = estimateTranslationUsage(
+      getSpeechProvider().models.translation,
+      transcription.text,
+      selectedLanguages.length
+    );
+    if (confirmWithinBudget([estimate], t)) runTranslation(selectedLanguages);
+  };
+
+  const handleCancelTranslation = () => {
+    translationAbortRef.current?.abort();
+  };
+
+  // Re-translates the languages already on screen after the transcript was edited.
+  const handleRetranslate = () => {
+    if (!transcription) return;
+    const codes = [
+      ...translations.map((translation) => translation.languageCode),
+      ...failedLanguages.map((l) => l.code),
+    ];
+    const estimate = estimateTranslationUsage(
+      getSpeechProvider().models.translation,
+      transcription.text,
+      codes.length
+    );
+    if (!confirmWithinBudget([estimate], t)) return;
+    runTranslation(LANGUAGES.filter((lang) => codes.includes(lang.code)));
+  };
+
+  const handleTranscriptSave = (
+    text: string,
+    segments: TranscriptSegment[],
+    label = t('history.edit')
+  ) => {
+    if (!transcription) return;
+    setTranscription({ ...transcription, text, segments });
+    setHistory((current) =>
+      appendVersion(
+        current,
+        TRANSCRIPT_HISTORY_KEY,
+        createVersion(label, text, segments)
+      )
+    );
+    setIsEditingTranscript(false);
+  };
+
+  const handleAddTake = (languageCode: string, take: NarrationTake) => {
+    setNarrations((current) => ({
+      ...current,
+      [languageCode]: [take, ...(current[languageCode] ?? [])],
+    }));
+  };
+
+  useEffect(() => {
+    setUsageProject(project && { id: project.id, name: project.name });
+  }, [project]);
+
+  // Saves the session shortly after it last changed.
+  useEffect(() => {
+    if (!project || !transcription) return;
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
     }
-  }, [audioFile]);
+    const timer = setTimeout(async () => {
+      try {
+        await saveProject({
+          ...project,
+          updatedAt: Date.now(),
+          sourceLanguageCode,
+          audioFile,
+          transcription,
+          translations,
+          history,
+          narrations,
+        });
+        setProjectRevision((revision) => revision + 1);
+      } catch (err) {
+        setError(describeError(err, t('error.unknown'), t));
+      }
+    }, PROJECT_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [
+    project,
+    sourceLanguageCode,
+    audioFile,
+    transcription,
+    translations,
+    history,
+    narrations,
+    t,
+  ]);
 
-  const handleTranslate = useCallback(async () => {
-    if (!transcription || !selectedLanguage) return;
-    setIsLoadingTranslation(true);
+  const applySnapshot = (snapshot: ProjectSnapshot) => {
+    setProject({
+      id: snapshot.id,
+      name: snapshot.name,
+      createdAt: snapshot.createdAt,
+    });
+    setAudioFile(snapshot.audioFile);
+    setOriginalAudioFile(null);
+    setSourceLanguageCode(snapshot.sourceLanguageCode);
+    setTranscription(snapshot.transcription);
+    setTranslations(snapshot.translations);
+    setFailedLanguages([]);
+    setTranscriptFromCache(false);
+    setCachedCodes([]);
+    setSelectedLanguages(
+      LANGUAGES.filter((lang) =>
+        snapshot.translations.some(
+          (translation) => translation.languageCode === lang.code
+        )
+      )
+    );
+    setTranslatedFromText(snapshot.transcription?.text ?? '');
+    setHistory(snapshot.history);
+    setNarrations(snapshot.narrations);
+    setIsEditingTranscript(false);
     setError('');
-    setTranslations([]);
+    setIsSidebarOpen(false);
+  };
+
+  const handleOpenProject = async (id: string) => {
     try {
-      const result = await translateText(transcription, [selectedLanguage]);
-      setTranslations(result);
+      const snapshot = await loadProject(id);
+      skipNextSaveRef.current = true;
+      applySnapshot(snapshot);
     } catch (err) {
-      setError(
-        err instanceof Error ? err.message : 'Došlo je do nepoznate greške.'
+      setError(describeError(err, t('error.unknown'), t));
+    }
+  };
+
+  const handleExportAll = async () => {
+    setIsExportingBundle(true);
+    try {
+      const name = project?.name ?? audioFile?.name ?? 'sesija';
+      const bundle = await createSessionBundle(
+        {
+          id: project?.id ?? '',
+          name,
+          createdAt: project?.createdAt ?? Date.now(),
+          updatedAt: Date.now(),
+          sourceLanguageCode,
+          audioFile,
+          transcription,
+          translations,
+          history,
+          narrations,
+        },
+        { provider: getSpeechProvider(), serbianScript }
       );
+      downloadBlob(bundle, `${name.replace(/\.[^.]+$/, '')}.zip`);
+    } catch (err) {
+      setError(describeError(err, t('error.unknown'), t));
     } finally {
-      setIsLoadingTranslation(false);
+      setIsExportingBundle(false);
+    }
+  };
+
+  // Imported sessions become new projects, saved by the autosave effect.
+  const handleImportBundle = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      applySnapshot(await readSessionBundle(file));
+      requestPersistentStorage();
+    } catch (err) {
+      setError(describeError(err, t('error.unknown'), t));
     }
-  }, [transcription, selectedLanguage]);
+  };
 
-  const handleLanguageSelect = (lang: Language) => {
-    setSelectedLanguage(lang);
-    setIsDropdownOpen(false);
+  const handleNewProject = () => {
+    resetState();
+    setIsSidebarOpen(false);
   };
 
+  const handleProjectRenamed = (id: string, name: string) => {
+    setProject((current) =>
+      current && current.id === id ? { ...current, name } : current
+    );
+  };
+
+  const handleProjectDeleted = (id: string) => {
+    if (project?.id === id) resetState();
+  };
+
+  const handleGlossaryChange = (updated: GlossaryEntry[]) => {
+    setGlossary(updated);
+    saveGlossary(updated);
+  };
+
+  const handleTranslationChange = (updated: Translation, label: string) => {
+    setTranslations((current) =>
+      current.map((translation) =>
+        translation.languageCode === updated.languageCode
+          ? updated
+          : translation
+      )
+    );
+    recordTranslationVersions([updated], label);
+  };
+
+  // Re-requests a single language and merges it in without touching the
+  // others. `forceRefresh` bypasses the result cache.
+  const handleRetryLanguage = useCallback(
+    async (lang: Language, forceRefresh = false) => {
+      if (!transcription) return;
+      const estimate = estimateTranslationUsage(
+        getSpeechProvider().models.translation,
+        transcription.text,
+        1
+      );
+      if (!confirmWithinBudget([estimate], t)) return;
+      setRetryingCodes((codes) => [...codes, lang.code]);
+      let fromCache = false;
+      try {
+        const result = await translateInBatches(
+          getSpeechProvider(),
+          transcription,
+          [lang],
+          { glossary, forceRefresh, onCacheHit: () => (fromCache = true) }
+        );
+        if (result.translations.length > 0) {
+          setCachedCodes((codes) =>
+            fromCache
+              ? [...codes, lang.code]
+              : codes.filter((c) => c !== lang.code)
+          );
+          const [updated] = result.translations;
+          setTranslations((current) => {
+            // Other cards stay as they are, even for languages deselected
+            // since; a language that failed before is slotted in by
+            // LANGUAGES order, like the selection.
+            if (
+              current.some(
+                (translation) => translation.languageCode === lang.code
+              )
+            ) {
+              return current.map((translation) =>
+                translation.languageCode === lang.code ? updated : translation
+              );
+            }
+            const rank = (code: string) =>
+              LANGUAGES.findIndex((l) => l.code === code);
+            const index = current.findIndex(
+              (translation) =>
+                rank(translation.languageCode) > rank(lang.code)
+            );
+            return index === -1
+              ? [...current, updated]
+              : [...current.slice(0, index), updated, ...current.slice(index)];
+          });
+          setFailedLanguages((current) =>
+            current.filter((l) => l.code !== lang.code)
+          );
+          recordTranslationVersions(
+            result.translations,
+            t('history.translation')
+          );
+        }
+      } catch (err) {
+        setError(describeError(err, t('error.unknown'), t));
+      } finally {
+        setRetryingCodes((codes) => codes.filter((c) => c !== lang.code));
+      }
+    },
+    [transcription, glossary, t]
+  );
+
   return (
     <div className='min-h-screen bg-[#0F172A] font-sans p-4 sm:p-6 lg:p-8'>
       <div className='max-w-7xl mx-auto'>
+        <ProjectSidebar
+          isOpen={isSidebarOpen}
+          currentProjectId={project?.id ?? null}
+          revision={projectRevision}
+          onClose={() => setIsSidebarOpen(false)}
+          onOpen={handleOpenProject}
+          onNew={handleNewProject}
+          onRenamed={handleProjectRenamed}
+          onDeleted={handleProjectDeleted}
+        />
+        {isGlossaryOpen && (
+          <GlossaryManager
+            glossary={glossary}
+            onChange={handleGlossaryChange}
+            sourceLanguageCode={
+              transcription?.languageCode ??
+              (sourceLanguageCode === AUTO_DETECT_LANGUAGE
+                ? 'sr'
+                : sourceLanguageCode)
+            }
+            initialLanguageCode={selectedLanguages[0]?.code}
+            onClose={() => setIsGlossaryOpen(false)}
+          />
+        )}
+        {isUsageOpen && (
+          <UsagePanel
+            currentProjectId={project?.id ?? null}
+            onClose={() => setIsUsageOpen(false)}
+          />
+        )}
+        <div className='flex justify-end gap-2 mb-4'>
+          <select
+            value={locale}
+            onChange={(e) => setLocale(e.target.value as UiLocale)}
+            aria-label={t('app.uiLanguage')}
+            className='bg-[#334155] text-gray-200 px-3 py-2 rounded-lg border border-gray-600'
+          >
+            {UI_LOCALES.map((option) => (
+              <option key={option.code} value={option.code}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleExportAll}
+            disabled={(!audioFile && !transcription) || isExportingBundle}
+            className='inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-[#334155] hover:bg-[#475569] text-gray-200 font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+          >
+            {isExportingBundle ? t('bundle.exporting') : t('bundle.export')}
+          </button>
+          <label className='inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-[#334155] hover:bg-[#475569] text-gray-200 font-semibold transition-colors cursor-pointer'>
+            {t('bundle.import')}
+            <input
+              type='file'
+              accept='.zip,application/zip'
+              onChange={handleImportBundle}
+              className='hidden'
+            />
+          </label>
+          <button
+            onClick={() => setIsUsageOpen(true)}
+            className='inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-[#334155] hover:bg-[#475569] text-gray-200 font-semibold transition-colors'
+          >
+            {t('usage.button')}
+          </button>
+          <button
+            onClick={() => setIsGlossaryOpen(true)}
+            className='inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-[#334155] hover:bg-[#475569] text-gray-200 font-semibold transition-colors'
+          >
+            {t('app.glossary')}
+            {glossary.length > 0 && (
+              <span className='text-sm font-normal text-gray-400'>
+                ({glossary.length})
+              </span>
+            )}
+          </button>
+          <button
+            onClick={() => setIsSidebarOpen(true)}
+            className='inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-[#334155] hover:bg-[#475569] text-gray-200 font-semibold transition-colors'
+          >
+            {t('app.projects')}
+            {project && (
+              <span className='text-sm font-normal text-gray-400 truncate max-w-[12rem]'>
+                · {project.name}
+              </span>
+            )}
+          </button>
+        </div>
         <header className='text-center mb-10'>
           <h1 className='text-4xl sm:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-indigo-500 pb-2'>
-            AI Audio prevodilac & narator
+            {t('app.title')}
           </h1>
-          <p className='mt-2 text-lg text-gray-400'>
-            Snimite ili otpremite audio, dobijte transkripcije, prevode i
-            AI-generisane glasovne naracije.
-          </p>
+          <p className='mt-2 text-lg text-gray-400'>{t('app.subtitle')}</p>
+          {getSpeechProvider().id === 'mock' && (
+            <p className='mt-3 inline-block text-sm font-medium text-amber-300 bg-amber-900/40 border border-amber-700 rounded-full px-3 py-1'>
+              {t('app.demoMode')}
+            </p>
+          )}
         </header>
 
         <main className='space-y-8'>
           <div className='bg-[#1E293B] shadow-2xl shadow-indigo-500/10 rounded-xl p-6 sm:p-8 w-full max-w-2xl mx-auto'>
             <h2 className='text-xl font-semibold mb-6 text-gray-200'>
-              1. Obezbedite Audio
+              {t('input.heading')}
             </h2>
             <div className='flex flex-col sm:flex-row items-center gap-4'>
               <button
@@ -182,10 +851,14 @@ const App: React.FC = () => {
                     clipRule='evenodd'
                   />
                 </svg>
-                {isRecording ? 'Zaustavi Snimanje' : 'Započni Snimanje'}
+                {isRecording
+                  ? t('input.stopRecording')
+                  : t('input.startRecording')}
               </button>
 
-              <span className='text-gray-400 font-medium'>ILI</span>
+              <span className='text-gray-400 font-medium'>
+                {t('input.or')}
+              </span>
 
               <label
                 htmlFor='file-upload'
@@ -207,7 +880,7 @@ const App: React.FC = () => {
                     clipRule='evenodd'
                   />
                 </svg>
-                Otpremi Fajl
+                {t('input.upload')}
               </label>
               <input
                 id='file-upload'
@@ -217,33 +890,202 @@ const App: React.FC = () => {
                 accept='audio/*'
                 disabled={isRecording}
               />
+
+              <span className='text-gray-400 font-medium'>
+                {t('input.or')}
+              </span>
+
+              <button
+                onClick={() => setIsTextImportOpen(!isTextImportOpen)}
+                disabled={isRecording}
+                aria-expanded={isTextImportOpen}
+                className={`w-full sm:w-auto flex-1 inline-flex items-center justify-center gap-2 px-6 py-3 font-semibold rounded-md bg-[#334155] ${
+                  isRecording
+                    ? 'opacity-50 cursor-not-allowed'
+                    : 'hover:bg-[#475569]'
+                } text-gray-200 transition-colors duration-300`}
+              >
+                <svg
+                  xmlns='http://www.w3.org/2000/svg'
+                  className='h-5 w-5'
+                  viewBox='0 0 20 20'
+                  fill='currentColor'
+                >
+                  <path
+                    fillRule='evenodd'
+                    d='M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4zm2 6a1 1 0 011-1h6a1 1 0 110 2H7a1 1 0 01-1-1zm1 3a1 1 0 100 2h6a1 1 0 100-2H7z'
+                    clipRule='evenodd'
+                  />
+                </svg>
+                {t('input.importText')}
+              </button>
             </div>
+            {isTextImportOpen && !isRecording && (
+              <TextImport
+                initialLanguageCode={
+                  sourceLanguageCode === AUTO_DETECT_LANGUAGE
+                    ? ''
+                    : sourceLanguageCode
+                }
+                onImport={handleTextImport}
+                disabled={isLoadingTranscription}
+              />
+            )}
             {audioFile && !isRecording && (
               <p className='mt-4 text-center text-gray-400'>
-                Izabran fajl:{' '}
+                {t('input.selectedFile')}{' '}
                 <span className='font-medium text-indigo-400'>
                   {audioFile.name}
                 </span>
               </p>
             )}
+            {audioFile && !isRecording && (
+              <AudioPlayer
+                id='source'
+                blob={audioFile}
+                className='mt-3 text-gray-300'
+              />
+            )}
+            {audioFile && !isRecording && (
+              <div className='mt-4'>
+                <button
+                  onClick={() => setIsPreprocessingOpen(!isPreprocessingOpen)}
+                  className='text-sm text-indigo-300 hover:text-indigo-200 font-semibold'
+                >
+                  {isPreprocessingOpen ? '▾' : '▸'} {t('input.preprocessing')}
+                  {originalAudioFile && ` ${t('input.preprocessingApplied')}`}
+                </button>
+                {isPreprocessingOpen && (
+                  <div className='mt-3'>
+                    <AudioPreprocessor
+                      file={originalAudioFile ?? audioFile}
+                      isProcessed={originalAudioFile !== null}
+                      onApply={(processed) => {
+                        setOriginalAudioFile((current) => current ?? audioFile);
+                        setAudioFile(processed);
+                      }}
+                      onRevert={() => {
+                        setAudioFile(originalAudioFile);
+                        setOriginalAudioFile(null);
+                      }}
+                      disabled={isLoadingTranscription}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
             {isRecording && (
               <p className='mt-4 text-center text-red-400 animate-pulse'>
-                Snimanje u toku...
+                {t('input.recording')}
               </p>
             )}
 
+            <div className='mt-4 flex flex-col sm:flex-row sm:items-center gap-3 text-sm text-gray-300'>
+              <label className='inline-flex items-center gap-2'>
+                <input
+                  type='checkbox'
+                  checked={isLiveMode}
+                  onChange={(e) => setIsLiveMode(e.target.checked)}
+                  disabled={isRecording}
+                />
+                {t('input.liveMode')}
+              </label>
+              {isLiveMode && (
+                <select
+                  value={liveTranslationCode}
+                  onChange={(e) => setLiveTranslationCode(e.target.value)}
+                  disabled={isRecording}
+                  aria-label={t('input.liveTranslation')}
+                  className='flex-1 bg-[#334155] text-gray-200 py-1 px-2 rounded-lg border border-gray-600'
+                >
+                  <option value=''>{t('input.noLiveTranslation')}</option>
+                  {LANGUAGES.map((lang) => (
+                    <option key={lang.code} value={lang.code}>
+                      {t('input.liveTranslationOption', {
+                        language: languageName(lang.code),
+                      })}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {(liveUpdate || (isRecording && isLiveMode)) && (
+              <div className='mt-4 space-y-3'>
+                <div>
+                  <p className='text-sm font-medium text-gray-400 mb-1'>
+                    {t('live.transcript')}
+                    {!isRecording &&
+                      isLoadingTranscription &&
+                      ` · ${t('live.replacing')}`}
+                  </p>
+                  <div className='text-gray-400 italic bg-gray-900/50 p-3 rounded-md max-h-40 overflow-y-auto'>
+                    {liveUpdate?.transcript.text || t('live.waiting')}
+                  </div>
+                </div>
+                {liveUpdate?.translation && (
+                  <div>
+                    <p className='text-sm font-medium text-gray-400 mb-1'>
+                      {t('live.translation', {
+                        language: languageName(liveTranslationCode),
+                      })}
+                    </p>
+                    <div className='text-gray-400 italic bg-gray-900/50 p-3 rounded-md max-h-40 overflow-y-auto'>
+                      {liveUpdate.translation.text}
+                    </div>
+                  </div>
+                )}
+                {liveUpdate?.error != null && (
+                  <p className='text-sm text-amber-300'>
+                    {describeError(liveUpdate.error, t('live.failed'), t)}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className='mt-6'>
+              <label
+                htmlFor='source-language'
+                className='block text-sm font-medium text-gray-400 mb-2'
+              >
+                {t('input.sourceLanguage')}
+              </label>
+              <select
+                id='source-language'
+                value={sourceLanguageCode}
+                onChange={(e) => setSourceLanguageCode(e.target.value)}
+                disabled={isLoadingTranscription}
+                className='w-full bg-[#334155] text-gray-200 py-3 px-4 rounded-lg border border-gray-600'
+              >
+                <option value={AUTO_DETECT_LANGUAGE}>
+                  {t('input.autoDetect')}
+                </option>
+                {LANGUAGES.map((lang) => (
+                  <option key={lang.code} value={lang.code}>
+                    {languageName(lang.code)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className='mt-6'>
               <button
-                onClick={handleBatchTranscription}
+                onClick={() => handleBatchTranscription()}
                 disabled={!audioFile || isLoadingTranscription || isRecording}
                 className='w-full flex justify-center items-center gap-2 bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-lg transition-colors disabled:bg-green-800 disabled:text-gray-400 disabled:cursor-not-allowed shadow-lg shadow-green-500/30'
               >
                 {isLoadingTranscription ? (
                   <Loader size='6' className='text-white' />
                 ) : (
-                  'Prevedi Audio'
+                  t('input.transcribe')
                 )}
               </button>
+              {isLoadingTranscription && (
+                <ChunkProgressBar
+                  progress={chunkProgress}
+                  onCancel={handleCancelTranscription}
+                />
+              )}
             </div>
           </div>
 
@@ -252,89 +1094,207 @@ const App: React.FC = () => {
               className='bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg relative max-w-2xl mx-auto'
               role='alert'
             >
-              <strong className='font-bold'>Greška: </strong>
+              <strong className='font-bold'>{t('error.heading')} </strong>
               <span className='block sm:inline'>{error}</span>
             </div>
           )}
 
-          {transcription && (
+          {transcription && displayedTranscript && (
             <div className='bg-[#1E293B] shadow-2xl shadow-indigo-500/10 rounded-xl p-6 sm:p-8 w-full max-w-2xl mx-auto space-y-6'>
               <div>
-                <h2 className='text-2xl font-semibold mb-3 text-gray-200'>
-                  Originalni Transkript (Srpski)
-                </h2>
-                <p className='text-gray-300 bg-gray-900/50 p-4 rounded-md whitespace-pre-wrap min-h-[100px]'>
-                  {transcription}
-                </p>
+                <div className='flex items-baseline justify-between gap-3 mb-3'>
+                  <h2 className='text-2xl font-semibold text-gray-200'>
+                    {t('transcript.heading', {
+                      language: languageName(transcription.languageCode),
+                    })}
+                  </h2>
+                  {transcription.languageCode === 'sr' && (
+                    <ScriptToggle
+                      script={serbianScript}
+                      onChange={handleSerbianScriptChange}
+                    />
+                  )}
+                </div>
+                {transcription.languageConfidence !== undefined && (
+                  <p className='-mt-2 mb-3 text-sm text-gray-400'>
+                    {t('transcript.confidence', {
+                      percent: Math.round(
+                        transcription.languageConfidence * 100
+                      ),
+                    })}
+                  </p>
+                )}
+                {isEditingTranscript ? (
+                  <SegmentEditor
+                    text={displayedTranscript.text}
+                    segments={displayedTranscript.segments}
+                    speakers={transcription.speakers}
+                    onSave={(text, segments) =>
+                      handleTranscriptSave(text, segments)
+                    }
+                    onCancel={() => setIsEditingTranscript(false)}
+                  />
+                ) : (
+                  <div className='text-gray-300 bg-gray-900/50 p-4 rounded-md min-h-[100px]'>
+                    <SegmentText
+                      text={displayedTranscript.text}
+                      segments={displayedTranscript.segments}
+                      speakers={transcription.speakers}
+                    />
+                  </div>
+                )}
+                <div className='mt-3 flex flex-wrap gap-3 text-sm'>
+                  {!isEditingTranscript && (
+                    <button
+                      onClick={() => setIsEditingTranscript(true)}
+                      className='text-indigo-300 hover:text-indigo-200 font-semibold'
+                    >
+                      {t('transcript.edit')}
+                    </button>
+                  )}
+                  {transcriptFromCache && (
+                    <button
+                      onClick={() => handleBatchTranscription(true)}
+                      disabled={isLoadingTranscription}
+                      title={t('transcript.cachedTitle')}
+                      className='text-sky-300 hover:text-sky-200 font-semibold disabled:opacity-50'
+                    >
+                      {t('cache.refresh')}
+                    </button>
+                  )}
+                  <button
+                    onClick={() =>
+                      setIsTranscriptHistoryOpen(!isTranscriptHistoryOpen)
+                    }
+                    className='text-indigo-300 hover:text-indigo-200 font-semibold'
+                  >
+                    {t('history.button', {
+                      count: history[TRANSCRIPT_HISTORY_KEY]?.length ?? 0,
+                    })}
+                  </button>
+                  {translations.length > 0 &&
+                    transcription.text !== translatedFromText && (
+                      <button
+                        onClick={handleRetranslate}
+                        disabled={isLoadingTranslation}
+                        className='text-amber-300 hover:text-amber-200 font-semibold disabled:opacity-50'
+                      >
+                        {t('transcript.retranslate')}
+                      </button>
+                    )}
+                </div>
+                {isTranscriptHistoryOpen && (
+                  <div className='mt-3'>
+                    <VersionHistory
+                      versions={history[TRANSCRIPT_HISTORY_KEY] ?? []}
+                      currentText={transcription.text}
+                      onRestore={(version) =>
+                        handleTranscriptSave(
+                          version.text,
+                          version.segments,
+                          t('history.restored')
+                        )
+                      }
+                    />
+                  </div>
+                )}
+                <SpeakerNamesEditor
+                  speakers={transcription.speakers}
+                  onRename={handleRenameSpeaker}
+                />
+                <SubtitleExportButtons
+                  segments={displayedTranscript.segments}
+                  speakers={transcription.speakers}
+                  baseName='transkript'
+                  className='mt-3 justify-end'
+                />
               </div>
 
               <div>
                 <h2 className='text-2xl font-semibold mb-3 text-gray-200'>
-                  3. Izaberite Jezik za Prevod
+                  {t('translate.heading')}
                 </h2>
-                <div className='relative'>
-                  <button
-                    onClick={() => setIsDropdownOpen(!isDropdownOpen)}
-                    className='w-full bg-[#334155] text-gray-200 font-semibold py-3 px-4 rounded-lg inline-flex items-center justify-between transition-colors hover:bg-[#475569]'
-                  >
-                    <span>
-                      {selectedLanguage
-                        ? selectedLanguage.name
-                        : 'Izaberite jezik'}
-                    </span>
-                    <svg
-                      className={`fill-current h-4 w-4 transform transition-transform ${
-                        isDropdownOpen ? 'rotate-180' : ''
-                      }`}
-                      xmlns='http://www.w3.org/2000/svg'
-                      viewBox='0 0 20 20'
-                    >
-                      <path d='M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z' />
-                    </svg>
-                  </button>
-                  {isDropdownOpen && (
-                    <div className='absolute z-10 w-full mt-1 bg-[#334155] border border-gray-600 rounded-md shadow-lg max-h-60 overflow-y-auto'>
-                      {LANGUAGES.map((lang) => (
-                        <div
-                          key={lang.code}
-                          className={`p-3 cursor-pointer ${
-                            selectedLanguage?.code === lang.code
-                              ? 'bg-indigo-600 text-white'
-                              : 'text-gray-200 hover:bg-indigo-600/30'
-                          }`}
-                          onClick={() => handleLanguageSelect(lang)}
-                        >
-                          <span className='ml-3'>{lang.name}</span>
-                        </div>
-                      ))}
-                    </div>
-                  )}
-                </div>
+                <LanguageSelector
+                  selected={selectedLanguages}
+                  onChange={setSelectedLanguages}
+                />
                 <button
                   onClick={handleTranslate}
-                  disabled={isLoadingTranslation || !selectedLanguage}
+                  disabled={
+                    isLoadingTranslation || selectedLanguages.length === 0
+                  }
                   className='mt-4 w-full flex justify-center items-center bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-4 rounded-lg transition-colors disabled:bg-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed'
                 >
                   {isLoadingTranslation ? (
                     <Loader size='6' className='text-white' />
                   ) : (
-                    'Prevedi'
+                    t('translate.button', { count: selectedLanguages.length })
                   )}
                 </button>
+                {isLoadingTranslation && (
+                  <button
+                    onClick={handleCancelTranslation}
+                    className='mt-2 w-full py-2 rounded-lg bg-[#334155] hover:bg-red-700 text-gray-200 text-sm font-semibold transition-colors'
+                  >
+                    {t('translate.cancel')}
+                  </button>
+                )}
               </div>
             </div>
           )}
 
-          {translations.length > 0 && (
+          {(translations.length > 0 || failedLanguages.length > 0) && (
             <div className='w-full max-w-7xl mx-auto'>
               <h2 className='text-3xl font-bold mb-6 text-center text-white'>
-                4. Prevod i Glasovna Naracija
+                {t('results.heading')}
               </h2>
-              <div className='flex justify-center'>
-                {translations.map((t) => (
-                  <div key={t.languageCode} className='w-full max-w-2xl'>
-                    <TranslationCard translation={t} />
+              {failedLanguages.length > 0 && (
+                <div className='bg-amber-900/30 border border-amber-700 rounded-lg p-4 mb-6 max-w-2xl mx-auto'>
+                  <p className='text-amber-300 mb-3'>
+                    {t('results.failed')}
+                  </p>
+                  <div className='flex flex-wrap gap-2'>
+                    {failedLanguages.map((lang) => (
+                      <button
+                        key={lang.code}
+                        onClick={() => handleRetryLanguage(lang)}
+                        disabled={retryingCodes.includes(lang.code)}
+                        className='inline-flex items-center gap-2 px-3 py-1 rounded-md bg-amber-700 hover:bg-amber-600 text-white text-sm font-semibold transition-colors disabled:opacity-60'
+                      >
+                        {retryingCodes.includes(lang.code) && (
+                          <Loader size='4' className='text-white' />
+                        )}
+                        {t('results.retry', {
+                          language: languageName(lang.code),
+                        })}
+                      </button>
+                    ))}
                   </div>
+                </div>
+              )}
+              <div className='grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6'>
+                {translations.map((translation) => (
+                  <TranslationCard
+                    key={translation.languageCode}
+                    translation={translation}
+                    speakers={transcription?.speakers ?? []}
+                    history={history[translationHistoryKey(translation.languageCode)] ?? []}
+                    onChange={handleTranslationChange}
+                    takes={narrations[translation.languageCode] ?? []}
+                    onAddTake={(take) => handleAddTake(translation.languageCode, take)}
+                    projectName={project?.name ?? audioFile?.name ?? ''}
+                    sourceAudio={audioFile}
+                    source={transcription}
+                    glossary={glossary}
+                    fromCache={cachedCodes.includes(translation.languageCode)}
+                    isRefreshing={retryingCodes.includes(translation.languageCode)}
+                    onRefresh={() => {
+                      const lang = LANGUAGES.find(
+                        (l) => l.code === translation.languageCode
+                      );
+                      if (lang) handleRetryLanguage(lang, true);
+                    }}
+                  />
                 ))}
               </div>
             </div>
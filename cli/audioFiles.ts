@@ -0,0 +1,129 @@
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+const MIME_TYPES: Record<string, string> = {
+  '.wav': 'audio/wav',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.ogg': 'audio/ogg',
+  '.oga': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.flac': 'audio/flac',
+  '.webm': 'audio/webm',
+};
+
+export interface AudioFile {
+  // Absolute path on disk.
+  path: string;
+  // Path below the directory or glob base it was found in, used to lay out
+  // the output folders.
+  relativePath: string;
+  mimeType: string;
+}
+
+export const mimeTypeFor = (file: string): string | undefined =>
+  MIME_TYPES[path.extname(file).toLowerCase()];
+
+const GLOB_CHARS = /[*?[]/;
+
+// `*` and `?` stay within one path segment; `**/` matches any number of
+// directories, including none.
+export const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += pattern.slice(i, end + 1);
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const isWithin = (file: string, dir: string) => {
+  const relative = path.relative(dir, file);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+};
+
+// `excluded` is an absolute directory that is not descended into.
+const walk = async (dir: string, excluded?: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries
+      .filter((entry) => !entry.name.startsWith('.'))
+      .map((entry) => {
+        const full = path.join(dir, entry.name);
+        if (!entry.isDirectory()) return Promise.resolve([full]);
+        return excluded && isWithin(path.resolve(full), excluded)
+          ? Promise.resolve([])
+          : walk(full, excluded);
+      })
+  );
+  return nested.flat();
+};
+
+const toPosix = (file: string) => file.split(path.sep).join('/');
+
+// Resolves directories (searched recursively), glob patterns and plain file
+// paths to the audio files they name, sorted and without duplicates. Files in
+// `outDir` are outputs of earlier runs, such as narration WAVs, and are
+// skipped even when the output directory lies inside an input.
+export const findAudioFiles = async (
+  inputs: string[],
+  outDir?: string
+): Promise<AudioFile[]> => {
+  const excluded = outDir && path.resolve(outDir);
+  const found = new Map<string, AudioFile>();
+  const add = (file: string, base: string) => {
+    const mimeType = mimeTypeFor(file);
+    const absolute = path.resolve(file);
+    if (!mimeType || found.has(absolute)) return;
+    if (excluded && isWithin(absolute, excluded)) return;
+    found.set(absolute, {
+      path: absolute,
+      relativePath: toPosix(path.relative(base, absolute)),
+      mimeType,
+    });
+  };
+
+  for (const input of inputs) {
+    const posix = toPosix(input);
+    if (GLOB_CHARS.test(posix)) {
+      const segments = posix.split('/');
+      const firstGlob = segments.findIndex((s) => GLOB_CHARS.test(s));
+      const base = segments.slice(0, firstGlob).join('/') || '.';
+      const pattern = globToRegExp(segments.slice(firstGlob).join('/'));
+      for (const file of await walk(base, excluded).catch(() => [])) {
+        if (pattern.test(toPosix(path.relative(base, file)))) add(file, base);
+      }
+      continue;
+    }
+    const info = await stat(input);
+    if (info.isDirectory()) {
+      for (const file of await walk(input, excluded)) add(file, input);
+    } else {
+      if (!mimeTypeFor(input)) {
+        throw new Error(`Unsupported audio file type: ${input}`);
+      }
+      add(input, path.dirname(input));
+    }
+  }
+
+  return [...found.values()].sort((a, b) => a.path.localeCompare(b.path));
+};
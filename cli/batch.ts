@@ -0,0 +1,573 @@
+import { parseArgs } from 'node:util';
+import { mkdir, readFile, rename, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  Language,
+  SerbianScript,
+  SpeechProvider,
+  SpeechProviderId,
+  Transcript,
+  Translation,
+} from '../types';
+import {
+  AUTO_DETECT_LANGUAGE,
+  BATCH_CONCURRENCY,
+  BATCH_OUTPUT_DIR,
+  DEFAULT_VOICE,
+  INLINE_AUDIO_MAX_BYTES,
+  MODEL_PRICES,
+  SPEAKER_VOICE_ROTATION,
+  TTS_SAMPLE_RATE,
+  VOICES,
+} from '../constants';
+import { geminiProvider } from '../services/geminiService';
+import { mockProvider } from '../services/mockService';
+import { resolveProviderId } from '../services/speechProvider';
+import { translateInBatches } from '../services/translationBatcher';
+import { generateNarration } from '../services/narration';
+import {
+  chunkAudio,
+  transcribeChunks,
+} from '../services/chunkedTranscription';
+import { describeError } from '../services/serviceErrors';
+import {
+  addUsage,
+  emptyTotals,
+  estimateCost,
+  withUsageTracking,
+} from '../services/usageTracking';
+import {
+  parseWav,
+  pcmToWavBlob,
+  WavData,
+  wavToMono,
+} from '../utils/audioUtils';
+import { isAbortError, mapWithConcurrency } from '../utils/asyncUtils';
+import { toSrt } from '../utils/subtitleUtils';
+import { speakersInSegments } from '../utils/speakerUtils';
+import { findLanguage } from '../utils/languageUtils';
+import { transliterateText } from '../utils/serbianScript';
+import { createTranslator } from '../i18n';
+import { AudioFile, findAudioFiles } from './audioFiles';
+
+// Processes folders of recordings without the UI: each file gets a
+// transcript, translations and narration WAVs in its own output folder,
+// with a manifest.json recording what is done so an interrupted run can pick
+// up where it stopped.
+
+const USAGE = `Usage: npm run batch -- [options] <directory|glob|file>...
+
+Options:
+  -l, --languages <codes>        Target languages, comma-separated (e.g. en,de)
+  -s, --source-language <code>   Language of the recordings (default: detect)
+  -o, --out <dir>                Output directory (default: ${BATCH_OUTPUT_DIR})
+  -c, --concurrency <n>          Recordings processed at once (default: ${BATCH_CONCURRENCY})
+      --voice <name>             Narration voice (default: ${DEFAULT_VOICE})
+      --script <latin|cyrillic>  Script for Serbian transcripts and translations
+      --skip-narration           Write transcripts and translations only
+      --provider <gemini|mock>   Backend (default: as in the web app)
+      --dry-run                  List the work to do without doing it
+  -h, --help                     Show this help
+
+Finished steps are recorded in each recording's manifest.json; running the
+same command again resumes after an interruption.`;
+
+const MANIFEST_FILE = 'manifest.json';
+
+const t = createTranslator('en');
+
+interface BatchOptions {
+  provider: SpeechProvider;
+  languages: Language[];
+  sourceLanguageCode: string;
+  outDir: string;
+  voiceName: string;
+  serbianScript?: SerbianScript;
+  narrate: boolean;
+  dryRun: boolean;
+  signal: AbortSignal;
+}
+
+interface FileManifest {
+  source: string;
+  sourceBytes: number;
+  sourceModifiedAt: number;
+  provider: SpeechProviderId;
+  sourceLanguageCode: string;
+  serbianScript?: SerbianScript;
+  status: 'complete' | 'incomplete' | 'failed';
+  // Output files, relative to the manifest.
+  transcript?: { languageCode: string; files: string[] };
+  translations: Record<string, string[]>;
+  narrations: Record<string, { file: string; voiceName: string }>;
+  failedLanguages: string[];
+  error?: string;
+  updatedAt: string;
+}
+
+interface WorkPlan {
+  transcribe: boolean;
+  translate: Language[];
+  narrate: Language[];
+}
+
+// Writes through a temporary file so an interrupted run never leaves a
+// truncated output behind.
+const writeAtomic = async (file: string, data: string | Uint8Array) => {
+  const temp = `${file}.partial`;
+  await writeFile(temp, data);
+  await rename(temp, file);
+};
+
+const writeJson = (file: string, value: unknown) =>
+  writeAtomic(file, `${JSON.stringify(value, null, 2)}\n`);
+
+const readJson = async <T>(file: string): Promise<T | null> => {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as T;
+  } catch {
+    return null;
+  }
+};
+
+// Text files for a transcript or translation, named after `baseName`.
+const writeTextOutputs = async (
+  dir: string,
+  baseName: string,
+  value: Transcript | Translation,
+  speakers: Transcript['speakers']
+): Promise<string[]> => {
+  const files = [`${baseName}.json`, `${baseName}.txt`];
+  await writeJson(path.join(dir, files[0]), value);
+  await writeAtomic(path.join(dir, files[1]), `${value.text}\n`);
+  if (value.segments.length > 0) {
+    files.push(`${baseName}.srt`);
+    await writeAtomic(
+      path.join(dir, files[2]),
+      toSrt(value.segments, speakers)
+    );
+  }
+  return files;
+};
+
+const freshManifest = (
+  file: AudioFile,
+  sourceBytes: number,
+  sourceModifiedAt: number,
+  options: BatchOptions
+): FileManifest => ({
+  source: file.relativePath,
+  sourceBytes,
+  sourceModifiedAt,
+  provider: options.provider.id,
+  sourceLanguageCode: options.sourceLanguageCode,
+  serbianScript: options.serbianScript,
+  status: 'incomplete',
+  translations: {},
+  narrations: {},
+  failedLanguages: [],
+  updatedAt: new Date().toISOString(),
+});
+
+// Earlier results still apply when neither the recording nor the settings
+// that shape the transcript have changed since.
+const isResumable = (
+  manifest: FileManifest,
+  fresh: FileManifest
+): boolean =>
+  manifest.sourceBytes === fresh.sourceBytes &&
+  manifest.sourceModifiedAt === fresh.sourceModifiedAt &&
+  manifest.provider === fresh.provider &&
+  manifest.sourceLanguageCode === fresh.sourceLanguageCode &&
+  manifest.serbianScript === fresh.serbianScript;
+
+const planWork = (manifest: FileManifest, options: BatchOptions): WorkPlan => {
+  const translate = options.languages.filter(
+    (lang) => !manifest.translations[lang.code]
+  );
+  const narrate = options.narrate
+    ? options.languages.filter(
+        (lang) =>
+          manifest.narrations[lang.code]?.voiceName !== options.voiceName
+      )
+    : [];
+  return { transcribe: !manifest.transcript, translate, narrate };
+};
+
+const describePlan = ({ transcribe, translate, narrate }: WorkPlan) => {
+  const steps = [
+    transcribe && 'transcribe',
+    translate.length > 0 &&
+      `translate ${translate.map((lang) => lang.code).join(',')}`,
+    narrate.length > 0 &&
+      `narrate ${narrate.map((lang) => lang.code).join(',')}`,
+  ].filter(Boolean);
+  return steps.length > 0 ? steps.join(', ') : 'up to date';
+};
+
+// Speakers get distinct voices, starting with the chosen one.
+const speakerVoicesFor = (translation: Translation, voiceName: string) => {
+  const rotation = [
+    voiceName,
+    ...SPEAKER_VOICE_ROTATION.filter((voice) => voice !== voiceName),
+  ];
+  return Object.fromEntries(
+    speakersInSegments(translation.segments).map((id, i) => [
+      id,
+      rotation[i % rotation.length],
+    ])
+  );
+};
+
+const readWav = (audio: Buffer): WavData | null => {
+  try {
+    return parseWav(
+      audio.buffer.slice(audio.byteOffset, audio.byteOffset + audio.byteLength)
+    );
+  } catch {
+    return null;
+  }
+};
+
+// Long recordings are split at silences and stitched like in the web app.
+// Only 16-bit PCM WAV can be decoded here; other formats go out in one
+// request and have to fit in it.
+const transcribeRecording = async (
+  file: AudioFile,
+  options: BatchOptions,
+  log: (message: string) => void
+): Promise<Transcript> => {
+  const { provider, signal, serbianScript, sourceLanguageCode } = options;
+  const audio = await readFile(file.path);
+  const wav = file.mimeType === 'audio/wav' ? readWav(audio) : null;
+  if (wav) {
+    const chunks = chunkAudio(wavToMono(wav), wav.sampleRate);
+    if (chunks.length > 1) {
+      log(`transcribing in ${chunks.length} chunks`);
+      return transcribeChunks(provider, chunks, wav.sampleRate, {
+        sourceLanguageCode,
+        signal,
+        serbianScript,
+      });
+    }
+  }
+  if (audio.byteLength > INLINE_AUDIO_MAX_BYTES) {
+    const megabytes = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+    throw new Error(
+      `Recording too large to send in one request (${megabytes(
+        audio.byteLength
+      )} MB, limit ${megabytes(INLINE_AUDIO_MAX_BYTES)} MB); ` +
+        'convert it to 16-bit WAV so it can be split into chunks.'
+    );
+  }
+  return provider.transcribeAudio(
+    audio.toString('base64'),
+    file.mimeType,
+    sourceLanguageCode,
+    { signal, serbianScript }
+  );
+};
+
+const processFile = async (
+  file: AudioFile,
+  options: BatchOptions,
+  log: (message: string) => void
+): Promise<FileManifest> => {
+  const { provider, signal } = options;
+  const dir = path.join(options.outDir, file.relativePath);
+  const manifestPath = path.join(dir, MANIFEST_FILE);
+  const info = await stat(file.path);
+  const fresh = freshManifest(file, info.size, info.mtimeMs, options);
+  const previous = await readJson<FileManifest>(manifestPath);
+  const manifest =
+    previous && isResumable(previous, fresh)
+      ? { ...previous, failedLanguages: [], error: undefined }
+      : fresh;
+  const plan = planWork(manifest, options);
+
+  if (options.dryRun) {
+    log(describePlan(plan));
+    return manifest;
+  }
+
+  const save = async (status: FileManifest['status'] = 'incomplete') => {
+    manifest.status = status;
+    manifest.updatedAt = new Date().toISOString();
+    await writeJson(manifestPath, manifest);
+  };
+
+  await mkdir(dir, { recursive: true });
+  try {
+    let transcript: Transcript;
+    if (plan.transcribe) {
+      log('transcribing');
+      transcript = await transcribeRecording(file, options, log);
+      manifest.transcript = {
+        languageCode: transcript.languageCode,
+        files: await writeTextOutputs(
+          dir,
+          'transcript',
+          transcript,
+          transcript.speakers
+        ),
+      };
+      await save();
+    } else {
+      transcript = (await readJson<Transcript>(
+        path.join(dir, manifest.transcript!.files[0])
+      ))!;
+    }
+
+    if (plan.translate.length > 0) {
+      log(`translating to ${plan.translate.map((l) => l.code).join(', ')}`);
+      const { translations, failed } = await translateInBatches(
+        provider,
+        transcript,
+        plan.translate,
+        { signal }
+      );
+      for (const result of translations) {
+        const translation =
+          result.languageCode === 'sr' && options.serbianScript
+            ? transliterateText(result, options.serbianScript)
+            : result;
+        manifest.translations[translation.languageCode] =
+          await writeTextOutputs(
+            dir,
+            `translation.${translation.languageCode}`,
+            translation,
+            transcript.speakers
+          );
+      }
+      manifest.failedLanguages = failed.map((lang) => lang.code);
+      await save();
+    }
+
+    for (const lang of plan.narrate) {
+      const files = manifest.translations[lang.code];
+      if (!files) continue;
+      log(`narrating ${lang.code}`);
+      const translation = (await readJson<Translation>(
+        path.join(dir, files[0])
+      ))!;
+      const pcm = await generateNarration(provider, {
+        text: translation.text,
+        segments: translation.segments,
+        voiceName: options.voiceName,
+        speakerVoices: speakerVoicesFor(translation, options.voiceName),
+        signal,
+      });
+      const wav = pcmToWavBlob(pcm, TTS_SAMPLE_RATE, 1, {
+        INAM: `${path.basename(file.path)} – ${lang.englishName}`,
+      });
+      const wavFile = `narration.${lang.code}.wav`;
+      await writeAtomic(
+        path.join(dir, wavFile),
+        new Uint8Array(await wav.arrayBuffer())
+      );
+      manifest.narrations[lang.code] = {
+        file: wavFile,
+        voiceName: options.voiceName,
+      };
+      await save();
+    }
+
+    const done = planWork(manifest, options);
+    const complete =
+      done.translate.length === 0 && done.narrate.length === 0;
+    await save(complete ? 'complete' : 'incomplete');
+    log(
+      complete
+        ? 'done'
+        : `incomplete; failed languages: ${manifest.failedLanguages.join(', ')}`
+    );
+  } catch (error) {
+    if (isAbortError(error)) {
+      await save();
+      throw error;
+    }
+    manifest.error = describeError(error, 'Unknown error.', t);
+    await save('failed');
+    log(`failed: ${manifest.error}`);
+  }
+  return manifest;
+};
+
+const PROVIDERS: Record<SpeechProviderId, SpeechProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+const parseOptions = (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      languages: { type: 'string', short: 'l', default: '' },
+      'source-language': {
+        type: 'string',
+        short: 's',
+        default: AUTO_DETECT_LANGUAGE,
+      },
+      out: { type: 'string', short: 'o', default: BATCH_OUTPUT_DIR },
+      concurrency: {
+        type: 'string',
+        short: 'c',
+        default: String(BATCH_CONCURRENCY),
+      },
+      voice: { type: 'string', default: DEFAULT_VOICE },
+      script: { type: 'string' },
+      'skip-narration': { type: 'boolean', default: false },
+      provider: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help) return null;
+
+  const codes = values.languages
+    .split(',')
+    .map((code) => code.trim().toLowerCase())
+    .filter(Boolean);
+  const unknown = codes.filter((code) => !findLanguage(code));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown language code: ${unknown.join(', ')}`);
+  }
+  const sourceLanguageCode = values['source-language'].toLowerCase();
+  if (
+    sourceLanguageCode !== AUTO_DETECT_LANGUAGE &&
+    !findLanguage(sourceLanguageCode)
+  ) {
+    throw new Error(`Unknown source language: ${sourceLanguageCode}`);
+  }
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('--concurrency must be a positive whole number');
+  }
+  if (!VOICES.some((voice) => voice.name === values.voice)) {
+    throw new Error(`Unknown voice: ${values.voice}`);
+  }
+  const script = values.script;
+  if (script !== undefined && script !== 'latin' && script !== 'cyrillic') {
+    throw new Error('--script must be "latin" or "cyrillic"');
+  }
+  const providerId = values.provider ?? resolveProviderId();
+  if (!Object.hasOwn(PROVIDERS, providerId)) {
+    throw new Error(`Unknown provider: ${providerId}`);
+  }
+  if (positionals.length === 0) {
+    throw new Error('No recordings given');
+  }
+
+  return {
+    inputs: positionals,
+    concurrency,
+    options: {
+      provider: PROVIDERS[providerId as SpeechProviderId],
+      languages: codes.map((code) => findLanguage(code)!),
+      sourceLanguageCode,
+      outDir: path.resolve(values.out),
+      voiceName: values.voice,
+      serbianScript: script as SerbianScript | undefined,
+      narrate: !values['skip-narration'],
+      dryRun: values['dry-run'],
+    },
+  };
+};
+
+const main = async (): Promise<number> => {
+  // The web app gets GEMINI_API_KEY injected as API_KEY at build time.
+  if (!process.env.API_KEY && process.env.GEMINI_API_KEY) {
+    process.env.API_KEY = process.env.GEMINI_API_KEY;
+  }
+
+  let parsed: ReturnType<typeof parseOptions>;
+  try {
+    parsed = parseOptions(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!parsed) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const files = await findAudioFiles(parsed.inputs, parsed.options.outDir);
+  if (files.length === 0) {
+    console.error('No audio files found.');
+    return 1;
+  }
+
+  // The first Ctrl+C cancels requests in flight and keeps finished steps;
+  // the second exits at once.
+  const controller = new AbortController();
+  process.on('SIGINT', () => {
+    if (controller.signal.aborted) process.exit(130);
+    console.error('\nStopping; run the same command again to resume.');
+    controller.abort();
+  });
+
+  // Costs use the default prices; edits in the web app's usage panel stay in
+  // the browser. The mock provider makes no requests, so nothing is counted.
+  let usage = emptyTotals();
+  const { provider } = parsed.options;
+  const options: BatchOptions = {
+    ...parsed.options,
+    provider:
+      provider.id === 'mock'
+        ? provider
+        : withUsageTracking(provider, (report) => {
+            usage = addUsage(usage, report, estimateCost(report, MODEL_PRICES));
+          }),
+    signal: controller.signal,
+  };
+  const logUsage = () => {
+    if (usage.calls === 0) return;
+    console.log(
+      `API usage: ${usage.calls} request(s), ${usage.inputTokens} input and ` +
+        `${usage.outputTokens} output tokens, about $${usage.costUsd.toFixed(2)}.`
+    );
+  };
+  console.log(
+    `${files.length} recording(s), provider ${options.provider.id}` +
+      (options.dryRun ? ', dry run' : '')
+  );
+  const width = String(files.length).length;
+  let manifests: FileManifest[];
+  try {
+    manifests = await mapWithConcurrency(
+      files,
+      parsed.concurrency,
+      (file, i) =>
+        processFile(file, options, (message) =>
+          console.log(
+            `[${String(i + 1).padStart(width)}/${files.length}] ${
+              file.relativePath
+            }: ${message}`
+          )
+        ),
+      controller.signal
+    );
+  } catch (error) {
+    if (isAbortError(error)) {
+      logUsage();
+      return 130;
+    }
+    throw error;
+  }
+
+  if (options.dryRun) return 0;
+  const complete = manifests.filter((m) => m.status === 'complete').length;
+  console.log(`${complete} of ${files.length} recording(s) complete.`);
+  logUsage();
+  return complete === files.length ? 0 : 1;
+};
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,203 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  PLAYBACK_RATES,
+  PLAYER_WAVEFORM_BUCKETS,
+  PLAYER_WAVEFORM_MAX_BYTES,
+} from '../constants';
+import { audioManager, AudioManagerState } from '../utils/audioManager';
+import { computePeaks } from '../utils/audioPreprocessing';
+import { describeError } from '../services/serviceErrors';
+import { useI18n } from '../i18n/I18nContext';
+
+interface AudioPlayerProps {
+  // Unique across the app; the manager plays one id at a time.
+  id: string;
+  blob: Blob;
+  className?: string;
+}
+
+const WAVEFORM_HEIGHT = 40;
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60)
+    .toString()
+    .padStart(2, '0')}`;
+
+// Play/pause/stop, a seekable waveform, speed and volume for one clip.
+// Speed and volume are shared by all players.
+const AudioPlayer: React.FC<AudioPlayerProps> = ({ id, blob, className = '' }) => {
+  const { t } = useI18n();
+  const [managerState, setManagerState] = useState<AudioManagerState>(
+    audioManager.getState
+  );
+  const [position, setPosition] = useState(0);
+  const [waveform, setWaveform] = useState<{
+    peaks: Float32Array;
+    duration: number;
+  } | null>(null);
+  const [error, setError] = useState('');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const isActive = managerState.activeId === id;
+  const isPlaying = isActive && managerState.isPlaying;
+  const duration = isActive && managerState.duration
+    ? managerState.duration
+    : waveform?.duration ?? 0;
+
+  useEffect(() => audioManager.subscribe(setManagerState), []);
+
+  // Playback belongs to this clip; it ends when the player goes away or gets
+  // different audio.
+  useEffect(
+    () => () => {
+      if (audioManager.getState().activeId === id) audioManager.stop();
+    },
+    [id, blob]
+  );
+
+  useEffect(() => {
+    setWaveform(null);
+    if (blob.size > PLAYER_WAVEFORM_MAX_BYTES) return;
+    let cancelled = false;
+    audioManager
+      .decode(blob)
+      .then((buffer) => {
+        if (cancelled) return;
+        setWaveform({
+          peaks: computePeaks(buffer.getChannelData(0), PLAYER_WAVEFORM_BUCKETS),
+          duration: buffer.duration,
+        });
+      })
+      .catch((err) => console.warn('Waveform could not be decoded:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [blob]);
+
+  // Follows the playhead while this clip is active.
+  useEffect(() => {
+    if (!isActive) {
+      setPosition(0);
+      return;
+    }
+    setPosition(audioManager.getPosition());
+    if (!isPlaying) return;
+    let frame = requestAnimationFrame(function tick() {
+      setPosition(audioManager.getPosition());
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isActive, isPlaying, managerState]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    const { width, height } = canvas;
+    const progressX = duration > 0 ? (position / duration) * width : 0;
+    context.clearRect(0, 0, width, height);
+    if (!waveform) {
+      context.fillStyle = '#94a3b8';
+      context.fillRect(0, height / 2 - 2, width, 4);
+      context.fillStyle = '#6366f1';
+      context.fillRect(0, height / 2 - 2, progressX, 4);
+      return;
+    }
+    const barWidth = width / waveform.peaks.length;
+    waveform.peaks.forEach((peak, i) => {
+      const x = i * barWidth;
+      const barHeight = Math.max(1, peak * height);
+      context.fillStyle = x < progressX ? '#6366f1' : '#94a3b8';
+      context.fillRect(x, (height - barHeight) / 2, Math.max(1, barWidth - 1), barHeight);
+    });
+  }, [waveform, position, duration]);
+
+  const playFrom = async (time?: number) => {
+    setError('');
+    try {
+      await audioManager.play(id, blob, time);
+    } catch (err) {
+      setError(describeError(err, t('player.decodeFailed'), t));
+    }
+  };
+
+  const handleToggle = () => {
+    if (isPlaying) {
+      audioManager.pause();
+    } else {
+      playFrom();
+    }
+  };
+
+  const handleSeek = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (duration === 0) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const time = ((event.clientX - rect.left) / rect.width) * duration;
+    if (isActive) {
+      audioManager.seek(time);
+    } else {
+      playFrom(time);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <div className='flex items-center gap-2'>
+        <button
+          onClick={handleToggle}
+          aria-label={isPlaying ? t('player.pause') : t('player.play')}
+          className='flex-shrink-0 w-8 h-8 flex items-center justify-center rounded-full bg-indigo-500 hover:bg-indigo-600 text-white transition-colors'
+        >
+          {isPlaying ? (
+            <svg xmlns='http://www.w3.org/2000/svg' className='h-4 w-4' viewBox='0 0 20 20' fill='currentColor'><path fillRule='evenodd' d='M5 4a1 1 0 011-1h2a1 1 0 011 1v12a1 1 0 01-1 1H6a1 1 0 01-1-1V4zm6 0a1 1 0 011-1h2a1 1 0 011 1v12a1 1 0 01-1 1h-2a1 1 0 01-1-1V4z' clipRule='evenodd' /></svg>
+          ) : (
+            <svg xmlns='http://www.w3.org/2000/svg' className='h-4 w-4' viewBox='0 0 20 20' fill='currentColor'><path d='M6.3 2.84A1.5 1.5 0 004 4.11v11.78a1.5 1.5 0 002.3 1.27l9.34-5.89a1.5 1.5 0 000-2.54L6.3 2.84z' /></svg>
+          )}
+        </button>
+        <button
+          onClick={() => audioManager.stop()}
+          disabled={!isActive}
+          aria-label={t('player.stop')}
+          className='flex-shrink-0 w-8 h-8 flex items-center justify-center rounded-full bg-gray-400 hover:bg-gray-500 text-white transition-colors disabled:opacity-40'
+        >
+          <svg xmlns='http://www.w3.org/2000/svg' className='h-3 w-3' viewBox='0 0 20 20' fill='currentColor'><rect x='3' y='3' width='14' height='14' rx='1' /></svg>
+        </button>
+        <canvas
+          ref={canvasRef}
+          width={PLAYER_WAVEFORM_BUCKETS * 2}
+          height={WAVEFORM_HEIGHT}
+          onClick={handleSeek}
+          className='flex-1 min-w-0 h-8 cursor-pointer'
+        />
+        <span className='flex-shrink-0 text-xs tabular-nums text-gray-500 dark:text-gray-400'>
+          {formatTime(position)}/{duration > 0 ? formatTime(duration) : '–:––'}
+        </span>
+        <select
+          value={managerState.playbackRate}
+          onChange={(e) => audioManager.setPlaybackRate(Number(e.target.value))}
+          aria-label={t('player.speed')}
+          className='flex-shrink-0 bg-transparent text-xs text-gray-500 dark:text-gray-400'
+        >
+          {PLAYBACK_RATES.map((rate) => (
+            <option key={rate} value={rate}>
+              {rate}×
+            </option>
+          ))}
+        </select>
+        <input
+          type='range'
+          min={0}
+          max={1}
+          step={0.05}
+          value={managerState.volume}
+          onChange={(e) => audioManager.setVolume(Number(e.target.value))}
+          aria-label={t('player.volume')}
+          className='flex-shrink-0 w-16'
+        />
+      </div>
+      {error && <p className='mt-1 text-xs text-red-400'>{error}</p>}
+    </div>
+  );
+};
+
+export default AudioPlayer;
@@ -0,0 +1,292 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PreprocessOptions } from '../types';
+import { CHUNK_SAMPLE_RATE, WAVEFORM_BUCKETS } from '../constants';
+import {
+  decodeAudioToMono,
+  floatToInt16,
+  pcmToWavBlob,
+} from '../utils/audioUtils';
+import {
+  computePeaks,
+  detectSpeechBounds,
+  preprocessAudio,
+} from '../utils/audioPreprocessing';
+import { describeError } from '../services/serviceErrors';
+import { useI18n } from '../i18n/I18nContext';
+import Loader from './Loader';
+
+interface AudioPreprocessorProps {
+  // The unprocessed recording; processing always starts from it.
+  file: File;
+  isProcessed: boolean;
+  onApply: (processed: File) => void;
+  onRevert: () => void;
+  disabled?: boolean;
+}
+
+const WAVEFORM_HEIGHT = 96;
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)} s`;
+
+// Waveform with draggable trim points and cleanup options. The result is a
+// mono WAV at the transcription rate that replaces the input file.
+const AudioPreprocessor: React.FC<AudioPreprocessorProps> = ({
+  file,
+  isProcessed,
+  onApply,
+  onRevert,
+  disabled = false,
+}) => {
+  const { t } = useI18n();
+  const [samples, setSamples] = useState<Float32Array | null>(null);
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const [options, setOptions] = useState<PreprocessOptions>({
+    trimStart: 0,
+    trimEnd: 0,
+    normalize: true,
+    noiseGate: false,
+    removePauses: false,
+  });
+  const [resultDuration, setResultDuration] = useState<number | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const draggingRef = useRef<'trimStart' | 'trimEnd' | null>(null);
+
+  const duration = samples ? samples.length / CHUNK_SAMPLE_RATE : 0;
+
+  useEffect(() => {
+    let cancelled = false;
+    setSamples(null);
+    setError('');
+    setResultDuration(null);
+    decodeAudioToMono(file, CHUNK_SAMPLE_RATE)
+      .then((decoded) => {
+        if (cancelled) return;
+        const bounds = detectSpeechBounds(decoded, CHUNK_SAMPLE_RATE);
+        setSamples(decoded);
+        setPeaks(computePeaks(decoded, WAVEFORM_BUCKETS));
+        setOptions((current) => ({
+          ...current,
+          trimStart: bounds.start,
+          trimEnd: bounds.end,
+        }));
+      })
+      .catch((err) => {
+        console.error('Error decoding audio for preprocessing:', err);
+        if (!cancelled) {
+          setError(t('preprocess.unsupported'));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !peaks || duration === 0) return;
+    const { width, height } = canvas;
+    const middle = height / 2;
+    const startX = (options.trimStart / duration) * width;
+    const endX = (options.trimEnd / duration) * width;
+    context.clearRect(0, 0, width, height);
+    peaks.forEach((peak, i) => {
+      const x = (i / peaks.length) * width;
+      const barHeight = Math.max(1, peak * middle);
+      context.fillStyle = x >= startX && x <= endX ? '#818cf8' : '#475569';
+      context.fillRect(x, middle - barHeight, width / peaks.length, barHeight * 2);
+    });
+    context.fillStyle = '#f472b6';
+    context.fillRect(startX - 1, 0, 2, height);
+    context.fillRect(endX - 1, 0, 2, height);
+  }, [peaks, duration, options.trimStart, options.trimEnd]);
+
+  const update = (changes: Partial<PreprocessOptions>) => {
+    setOptions((current) => ({ ...current, ...changes }));
+    setResultDuration(null);
+  };
+
+  const timeAt = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    return ratio * duration;
+  };
+
+  const moveTrimPoint = (point: 'trimStart' | 'trimEnd', time: number) => {
+    update(
+      point === 'trimStart'
+        ? { trimStart: Math.min(time, options.trimEnd) }
+        : { trimEnd: Math.max(time, options.trimStart) }
+    );
+  };
+
+  // The trim point nearest the pointer follows it until release.
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled || isWorking) return;
+    const time = timeAt(event);
+    const point =
+      Math.abs(time - options.trimStart) <= Math.abs(time - options.trimEnd)
+        ? 'trimStart'
+        : 'trimEnd';
+    draggingRef.current = point;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    moveTrimPoint(point, time);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (draggingRef.current) moveTrimPoint(draggingRef.current, timeAt(event));
+  };
+
+  const handleAutoTrim = () => {
+    if (!samples) return;
+    const bounds = detectSpeechBounds(samples, CHUNK_SAMPLE_RATE);
+    update({ trimStart: bounds.start, trimEnd: bounds.end });
+  };
+
+  const handleApply = async () => {
+    if (!samples) return;
+    setIsWorking(true);
+    setError('');
+    // Let the spinner render before the synchronous processing starts.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    try {
+      const processed = preprocessAudio(samples, CHUNK_SAMPLE_RATE, options);
+      const wav = pcmToWavBlob(floatToInt16(processed), CHUNK_SAMPLE_RATE, 1);
+      const name = `${file.name.replace(/\.[^.]+$/, '')}_obradjeno.wav`;
+      setResultDuration(processed.length / CHUNK_SAMPLE_RATE);
+      onApply(new File([wav], name, { type: 'audio/wav' }));
+    } catch (err) {
+      setError(describeError(err, t('preprocess.failed'), t));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (error && !samples) {
+    return <p className='text-sm text-amber-300'>{error}</p>;
+  }
+  if (!samples) {
+    return (
+      <div className='flex justify-center py-4'>
+        <Loader size='6' />
+      </div>
+    );
+  }
+
+  return (
+    <div className='space-y-3 text-sm text-gray-300'>
+      <canvas
+        ref={canvasRef}
+        width={WAVEFORM_BUCKETS}
+        height={WAVEFORM_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => (draggingRef.current = null)}
+        className='w-full h-24 bg-gray-900/50 rounded-md cursor-ew-resize touch-none'
+      />
+      <div className='flex flex-wrap items-center gap-3'>
+        <label className='inline-flex items-center gap-2'>
+          {t('preprocess.start')}
+          <input
+            type='number'
+            min={0}
+            max={options.trimEnd}
+            step={0.1}
+            value={options.trimStart.toFixed(1)}
+            onChange={(e) => moveTrimPoint('trimStart', Number(e.target.value))}
+            disabled={disabled || isWorking}
+            className='w-20 bg-[#334155] text-gray-200 py-1 px-2 rounded-lg border border-gray-600'
+          />
+        </label>
+        <label className='inline-flex items-center gap-2'>
+          {t('preprocess.end')}
+          <input
+            type='number'
+            min={options.trimStart}
+            max={duration}
+            step={0.1}
+            value={options.trimEnd.toFixed(1)}
+            onChange={(e) =>
+              moveTrimPoint('trimEnd', Math.min(duration, Number(e.target.value)))
+            }
+            disabled={disabled || isWorking}
+            className='w-20 bg-[#334155] text-gray-200 py-1 px-2 rounded-lg border border-gray-600'
+          />
+        </label>
+        <button
+          onClick={handleAutoTrim}
+          disabled={disabled || isWorking}
+          className='text-indigo-300 hover:text-indigo-200 font-semibold disabled:opacity-50'
+        >
+          {t('preprocess.autoTrim')}
+        </button>
+      </div>
+      <div className='flex flex-wrap gap-4'>
+        <label className='inline-flex items-center gap-2'>
+          <input
+            type='checkbox'
+            checked={options.normalize}
+            onChange={(e) => update({ normalize: e.target.checked })}
+            disabled={disabled || isWorking}
+          />
+          {t('preprocess.normalize')}
+        </label>
+        <label className='inline-flex items-center gap-2'>
+          <input
+            type='checkbox'
+            checked={options.noiseGate}
+            onChange={(e) => update({ noiseGate: e.target.checked })}
+            disabled={disabled || isWorking}
+          />
+          {t('preprocess.noiseGate')}
+        </label>
+        <label className='inline-flex items-center gap-2'>
+          <input
+            type='checkbox'
+            checked={options.removePauses}
+            onChange={(e) => update({ removePauses: e.target.checked })}
+            disabled={disabled || isWorking}
+          />
+          {t('preprocess.removePauses')}
+        </label>
+      </div>
+      {error && <p className='text-amber-300'>{error}</p>}
+      <div className='flex flex-wrap items-center gap-3'>
+        <button
+          onClick={handleApply}
+          disabled={disabled || isWorking}
+          className='inline-flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50'
+        >
+          {isWorking && <Loader size='4' className='text-white' />}
+          {t('preprocess.apply')}
+        </button>
+        {isProcessed && (
+          <button
+            onClick={() => {
+              setResultDuration(null);
+              onRevert();
+            }}
+            disabled={disabled || isWorking}
+            className='text-gray-400 hover:text-gray-200 font-semibold disabled:opacity-50'
+          >
+            {t('preprocess.revert')}
+          </button>
+        )}
+        <span className='text-gray-400'>
+          {formatSeconds(duration)}
+          {resultDuration !== null && isProcessed &&
+            ` → ${formatSeconds(resultDuration)}`}
+        </span>
+      </div>
+      {options.removePauses && (
+        <p className='text-xs text-gray-500'>
+          {t('preprocess.timingNote')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AudioPreprocessor;
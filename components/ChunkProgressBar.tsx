@@ -0,0 +1,61 @@
+import React from 'react';
+import { ChunkProgress, ChunkStatus } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+
+interface ChunkProgressBarProps {
+  progress: ChunkProgress[];
+  onCancel: () => void;
+}
+
+const STATUS_CLASSES: Record<ChunkStatus, string> = {
+  pending: 'bg-gray-600',
+  running: 'bg-indigo-400 animate-pulse',
+  done: 'bg-green-500',
+  error: 'bg-red-500',
+};
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(
+    2,
+    '0'
+  )}`;
+
+const ChunkProgressBar: React.FC<ChunkProgressBarProps> = ({
+  progress,
+  onCancel,
+}) => {
+  const { t } = useI18n();
+  const done = progress.filter((chunk) => chunk.status === 'done').length;
+
+  return (
+    <div className='mt-4 space-y-2'>
+      {progress.length > 1 && (
+        <>
+          <div className='flex justify-between text-sm text-gray-400'>
+            <span>{t('input.chunks', { done, total: progress.length })}</span>
+            <span>{Math.round((done / progress.length) * 100)}%</span>
+          </div>
+          <div className='flex gap-1'>
+            {progress.map((chunk) => (
+              <div
+                key={chunk.index}
+                title={`${formatTime(chunk.start)} – ${formatTime(chunk.end)}`}
+                className={`h-2 flex-1 rounded-sm ${
+                  STATUS_CLASSES[chunk.status]
+                }`}
+              />
+            ))}
+          </div>
+        </>
+      )}
+      <button
+        onClick={onCancel}
+        className='w-full py-2 rounded-lg bg-[#334155] hover:bg-red-700 text-gray-200 text-sm font-semibold transition-colors'
+      >
+        {t('input.cancelTranscription')}
+      </button>
+    </div>
+  );
+};
+
+export default ChunkProgressBar;
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { ExportFormat, ExportMetadata, ExportOptions } from '../types';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_SAMPLE_RATES,
+  MP3_BITRATES,
+} from '../constants';
+import {
+  exportNarration,
+  loadExportOptions,
+  renderFileName,
+  saveExportOptions,
+} from '../utils/audioExport';
+import { downloadBlob } from '../utils/downloadUtils';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import Loader from './Loader';
+
+interface ExportDialogProps {
+  wav: Blob;
+  metadata: ExportMetadata;
+  // Values for the file name placeholders.
+  fileNameValues: Record<string, string>;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, MessageKey> = {
+  wav: 'export.wav',
+  mp3: 'export.mp3',
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  wav,
+  metadata,
+  fileNameValues,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const [options, setOptions] = useState<ExportOptions>(() => ({
+    ...DEFAULT_EXPORT_OPTIONS,
+    ...loadExportOptions(),
+  }));
+  const [title, setTitle] = useState(metadata.title);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const update = (changes: Partial<ExportOptions>) =>
+    setOptions((current) => ({ ...current, ...changes }));
+
+  const fileName = `${renderFileName(
+    options.fileNameTemplate,
+    fileNameValues
+  )}.${options.format}`;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError('');
+    try {
+      const blob = await exportNarration(wav, options, { ...metadata, title });
+      saveExportOptions(options);
+      downloadBlob(blob, fileName);
+      onClose();
+    } catch (err) {
+      console.error('Error exporting narration:', err);
+      setError(t('export.failed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const fieldClass =
+    'w-full bg-gray-900/50 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200';
+
+  return (
+    <div className='fixed inset-0 z-40 flex items-center justify-center bg-black/60 p-4'>
+      <div className='w-full max-w-md bg-[#1E293B] rounded-xl shadow-2xl p-6 space-y-4'>
+        <h2 className='text-xl font-semibold text-gray-200'>
+          {t('export.heading')}
+        </h2>
+
+        <label className='block text-sm text-gray-400'>
+          {t('export.format')}
+          <select
+            value={options.format}
+            onChange={(e) => update({ format: e.target.value as ExportFormat })}
+            className={`mt-1 ${fieldClass}`}
+          >
+            {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => (
+              <option key={format} value={format}>
+                {t(FORMAT_LABELS[format])}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className='grid grid-cols-2 gap-3'>
+          <label className='block text-sm text-gray-400'>
+            {t('export.sampleRate')}
+            <select
+              value={options.sampleRate}
+              onChange={(e) => update({ sampleRate: Number(e.target.value) })}
+              className={`mt-1 ${fieldClass}`}
+            >
+              {EXPORT_SAMPLE_RATES.map((rate) => (
+                <option key={rate} value={rate}>
+                  {(rate / 1000).toFixed(1)} kHz
+                </option>
+              ))}
+            </select>
+          </label>
+          {options.format === 'mp3' && (
+            <label className='block text-sm text-gray-400'>
+              {t('export.bitrate')}
+              <select
+                value={options.bitrateKbps}
+                onChange={(e) =>
+                  update({ bitrateKbps: Number(e.target.value) })
+                }
+                className={`mt-1 ${fieldClass}`}
+              >
+                {MP3_BITRATES.map((kbps) => (
+                  <option key={kbps} value={kbps}>
+                    {kbps} kbps
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        <label className='flex items-center gap-2 text-sm text-gray-300'>
+          <input
+            type='checkbox'
+            checked={options.stereo}
+            onChange={(e) => update({ stereo: e.target.checked })}
+            className='h-4 w-4 accent-indigo-400'
+          />
+          {t('export.stereo')}
+        </label>
+
+        {options.format === 'wav' && (
+          <label className='block text-sm text-gray-400'>
+            {t('export.title')}
+            <input
+              type='text'
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className={`mt-1 ${fieldClass}`}
+            />
+          </label>
+        )}
+
+        <label className='block text-sm text-gray-400'>
+          {t('export.fileName')}
+          <input
+            type='text'
+            value={options.fileNameTemplate}
+            onChange={(e) => update({ fileNameTemplate: e.target.value })}
+            className={`mt-1 ${fieldClass}`}
+          />
+          <span className='block mt-1 text-xs text-gray-500'>
+            {t('export.placeholders')} {'{projekat}'}, {'{jezik}'}, {'{glas}'}, {'{verzija}'},{' '}
+            {'{datum}'} · {fileName}
+          </span>
+        </label>
+
+        {error && <p className='text-sm text-red-400'>{error}</p>}
+
+        <div className='flex justify-end gap-2 pt-2'>
+          <button
+            onClick={onClose}
+            className='px-4 py-2 text-sm rounded-md bg-[#334155] hover:bg-[#475569] text-gray-200'
+          >
+            {t('export.cancel')}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className='inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-md bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-60'
+          >
+            {isExporting && <Loader size='4' className='text-white' />}
+            {t('export.download')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,258 @@
+import React, { useRef, useState } from 'react';
+import { GlossaryEntry } from '../types';
+import { LANGUAGES } from '../constants';
+import {
+  createGlossaryEntryId,
+  mergeGlossaries,
+  parseGlossaryCsv,
+  parseGlossaryTbx,
+  toGlossaryCsv,
+  toGlossaryTbx,
+} from '../utils/glossary';
+import { downloadBlob } from '../utils/downloadUtils';
+import { describeError } from '../services/serviceErrors';
+import { useI18n } from '../i18n/I18nContext';
+
+interface GlossaryManagerProps {
+  glossary: GlossaryEntry[];
+  onChange: (glossary: GlossaryEntry[]) => void;
+  // Language of the glossary terms, used for TBX import and export.
+  sourceLanguageCode: string;
+  // Target language whose renderings are edited first.
+  initialLanguageCode?: string;
+  onClose: () => void;
+}
+
+// Edits terms and their renderings one target language at a time; CSV and
+// TBX files carry every language at once.
+const GlossaryManager: React.FC<GlossaryManagerProps> = ({
+  glossary,
+  onChange,
+  sourceLanguageCode,
+  initialLanguageCode = 'en',
+  onClose,
+}) => {
+  const { t, languageName } = useI18n();
+  const [languageCode, setLanguageCode] = useState(initialLanguageCode);
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateEntry = (id: string, changes: Partial<GlossaryEntry>) =>
+    onChange(
+      glossary.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry))
+    );
+
+  const setTranslation = (entry: GlossaryEntry, value: string) => {
+    const { [languageCode]: _previous, ...others } = entry.translations;
+    updateEntry(entry.id, {
+      translations: value ? { ...others, [languageCode]: value } : others,
+    });
+  };
+
+  const handleAdd = () => {
+    onChange([
+      ...glossary,
+      { id: createGlossaryEntryId(), term: '', translations: {}, doNotTranslate: false },
+    ]);
+    setQuery('');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError('');
+    setNotice('');
+    try {
+      const text = await file.text();
+      const imported = /\.(tbx|xml)$/i.test(file.name)
+        ? parseGlossaryTbx(text, sourceLanguageCode)
+        : parseGlossaryCsv(text);
+      onChange(mergeGlossaries(glossary, imported));
+      setNotice(t('glossary.imported', { count: imported.length }));
+    } catch (err) {
+      console.error('Error importing glossary:', err);
+      setError(describeError(err, t('glossary.importFailed'), t));
+    }
+  };
+
+  const handleExportCsv = () =>
+    downloadBlob(
+      new Blob(['\uFEFF', toGlossaryCsv(glossary)], { type: 'text/csv;charset=utf-8' }),
+      'glosar.csv'
+    );
+
+  const handleExportTbx = () =>
+    downloadBlob(
+      new Blob([toGlossaryTbx(glossary, sourceLanguageCode)], {
+        type: 'application/x-tbx+xml',
+      }),
+      'glosar.tbx'
+    );
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visible = normalizedQuery
+    ? glossary.filter((entry) =>
+        [entry.term, ...Object.values(entry.translations)].some((value) =>
+          value.toLowerCase().includes(normalizedQuery)
+        )
+      )
+    : glossary;
+
+  const fieldClass =
+    'w-full bg-gray-900/50 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200';
+
+  return (
+    <div className='fixed inset-0 z-40 flex items-center justify-center bg-black/60 p-4'>
+      <div className='w-full max-w-3xl max-h-[90vh] flex flex-col bg-[#1E293B] rounded-xl shadow-2xl p-6 space-y-4'>
+        <div className='flex items-center justify-between'>
+          <h2 className='text-xl font-semibold text-gray-200'>
+            {t('glossary.heading')}
+          </h2>
+          <button
+            onClick={onClose}
+            className='text-gray-400 hover:text-gray-200 font-semibold'
+          >
+            {t('glossary.close')}
+          </button>
+        </div>
+
+        <div className='flex flex-wrap gap-3 items-center'>
+          <label className='text-sm text-gray-400'>
+            {t('glossary.language')}{' '}
+            <select
+              value={languageCode}
+              onChange={(e) => setLanguageCode(e.target.value)}
+              className='ml-1 bg-gray-900/50 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200'
+            >
+              {LANGUAGES.map((lang) => (
+                <option key={lang.code} value={lang.code}>
+                  {languageName(lang.code)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <input
+            type='search'
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('glossary.search')}
+            className='flex-1 min-w-[10rem] bg-gray-900/50 border border-gray-600 rounded-md px-3 py-1 text-sm text-gray-200'
+          />
+        </div>
+
+        <div className='flex-1 overflow-y-auto'>
+          {visible.length === 0 ? (
+            <p className='text-sm text-gray-500 py-6 text-center'>
+              {glossary.length === 0
+                ? t('glossary.empty')
+                : t('glossary.noMatches')}
+            </p>
+          ) : (
+            <table className='w-full text-sm text-gray-300'>
+              <thead>
+                <tr className='text-left text-gray-400'>
+                  <th className='font-medium pb-2 pr-2'>
+                    {t('glossary.term', {
+                      language: languageName(sourceLanguageCode),
+                    })}
+                  </th>
+                  <th className='font-medium pb-2 pr-2'>
+                    {languageName(languageCode)}
+                  </th>
+                  <th className='font-medium pb-2 pr-2 whitespace-nowrap'>
+                    {t('glossary.doNotTranslate')}
+                  </th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((entry) => (
+                  <tr key={entry.id}>
+                    <td className='pr-2 py-1'>
+                      <input
+                        value={entry.term}
+                        onChange={(e) => updateEntry(entry.id, { term: e.target.value })}
+                        className={fieldClass}
+                      />
+                    </td>
+                    <td className='pr-2 py-1'>
+                      <input
+                        value={entry.doNotTranslate ? entry.term : entry.translations[languageCode] ?? ''}
+                        onChange={(e) => setTranslation(entry, e.target.value)}
+                        disabled={entry.doNotTranslate}
+                        className={`${fieldClass} disabled:opacity-50`}
+                      />
+                    </td>
+                    <td className='pr-2 py-1 text-center'>
+                      <input
+                        type='checkbox'
+                        checked={entry.doNotTranslate}
+                        onChange={(e) =>
+                          updateEntry(entry.id, { doNotTranslate: e.target.checked })
+                        }
+                      />
+                    </td>
+                    <td className='py-1 text-right'>
+                      <button
+                        onClick={() => onChange(glossary.filter((e) => e.id !== entry.id))}
+                        className='text-red-400 hover:text-red-300'
+                      >
+                        {t('glossary.delete')}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {error && <p className='text-sm text-red-400'>{error}</p>}
+        {notice && <p className='text-sm text-green-400'>{notice}</p>}
+
+        <div className='flex flex-wrap gap-2 justify-between'>
+          <button
+            onClick={handleAdd}
+            className='bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg text-sm'
+          >
+            {t('glossary.add')}
+          </button>
+          <div className='flex flex-wrap gap-2'>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className='bg-[#334155] hover:bg-[#475569] text-gray-200 font-semibold py-2 px-3 rounded-lg text-sm'
+            >
+              {t('glossary.import')}
+            </button>
+            <input
+              ref={fileInputRef}
+              type='file'
+              accept='.csv,.tbx,.xml,text/csv'
+              className='hidden'
+              onChange={handleImport}
+            />
+            <button
+              onClick={handleExportCsv}
+              disabled={glossary.length === 0}
+              className='bg-[#334155] hover:bg-[#475569] text-gray-200 font-semibold py-2 px-3 rounded-lg text-sm disabled:opacity-50'
+            >
+              {t('glossary.exportCsv')}
+            </button>
+            <button
+              onClick={handleExportTbx}
+              disabled={glossary.length === 0}
+              className='bg-[#334155] hover:bg-[#475569] text-gray-200 font-semibold py-2 px-3 rounded-lg text-sm disabled:opacity-50'
+            >
+              {t('glossary.exportTbx')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryManager;
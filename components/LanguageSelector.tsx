@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { Language, LanguagePreset } from '../types';
+import { LANGUAGES } from '../constants';
+import {
+  getAllPresets,
+  loadUserPresets,
+  presetLanguages,
+  saveUserPresets,
+} from '../utils/languagePresets';
+import { useI18n } from '../i18n/I18nContext';
+
+interface LanguageSelectorProps {
+  selected: Language[];
+  onChange: (languages: Language[]) => void;
+}
+
+const LanguageSelector: React.FC<LanguageSelectorProps> = ({
+  selected,
+  onChange,
+}) => {
+  const { t, languageName } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [userPresets, setUserPresets] = useState<LanguagePreset[]>(
+    loadUserPresets
+  );
+  const [presetName, setPresetName] = useState('');
+
+  const isSelected = (lang: Language) =>
+    selected.some((l) => l.code === lang.code);
+
+  // Keep the selection in LANGUAGES order so cards always lay out the same way.
+  const toggleLanguage = (lang: Language) => {
+    const next = isSelected(lang)
+      ? selected.filter((l) => l.code !== lang.code)
+      : LANGUAGES.filter((l) => l.code === lang.code || isSelected(l));
+    onChange(next);
+  };
+
+  const updateUserPresets = (presets: LanguagePreset[]) => {
+    setUserPresets(presets);
+    saveUserPresets(presets);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name || selected.length === 0) return;
+    updateUserPresets([
+      ...userPresets.filter((p) => p.name !== name),
+      {
+        id: `user-${Date.now()}`,
+        name,
+        codes: selected.map((l) => l.code),
+      },
+    ]);
+    setPresetName('');
+  };
+
+  const allSelected = selected.length === LANGUAGES.length;
+
+  return (
+    <div className='space-y-3'>
+      <div className='flex flex-wrap gap-2'>
+        {getAllPresets(userPresets).map((preset) => (
+          <span
+            key={preset.id}
+            className='inline-flex items-center rounded-full bg-[#334155] text-sm text-gray-200'
+          >
+            <button
+              onClick={() => onChange(presetLanguages(preset))}
+              className='px-3 py-1 rounded-full hover:bg-indigo-600/40 transition-colors'
+            >
+              {preset.name}
+            </button>
+            {!preset.builtIn && (
+              <button
+                onClick={() =>
+                  updateUserPresets(
+                    userPresets.filter((p) => p.id !== preset.id)
+                  )
+                }
+                className='pr-3 text-gray-400 hover:text-red-400'
+                aria-label={t('translate.deletePreset', { name: preset.name })}
+              >
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+
+      <div className='relative'>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className='w-full bg-[#334155] text-gray-200 font-semibold py-3 px-4 rounded-lg inline-flex items-center justify-between transition-colors hover:bg-[#475569]'
+        >
+          <span className='truncate text-left'>
+            {selected.length === 0
+              ? t('translate.choose')
+              : selected.length <= 3
+              ? selected.map((l) => languageName(l.code)).join(', ')
+              : t('translate.selectedCount', { count: selected.length })}
+          </span>
+          <svg
+            className={`fill-current h-4 w-4 flex-shrink-0 transform transition-transform ${
+              isOpen ? 'rotate-180' : ''
+            }`}
+            xmlns='http://www.w3.org/2000/svg'
+            viewBox='0 0 20 20'
+          >
+            <path d='M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z' />
+          </svg>
+        </button>
+        {isOpen && (
+          <div className='absolute z-10 w-full mt-1 bg-[#334155] border border-gray-600 rounded-md shadow-lg max-h-72 overflow-y-auto'>
+            <div className='flex justify-between p-3 border-b border-gray-600 text-sm'>
+              <button
+                onClick={() => onChange(allSelected ? [] : LANGUAGES)}
+                className='text-indigo-300 hover:text-indigo-200 font-semibold'
+              >
+                {allSelected ? t('translate.deselectAll') : t('translate.selectAll')}
+              </button>
+              <button
+                onClick={() => setIsOpen(false)}
+                className='text-gray-300 hover:text-white'
+              >
+                {t('translate.close')}
+              </button>
+            </div>
+            {LANGUAGES.map((lang) => (
+              <label
+                key={lang.code}
+                className={`flex items-center p-3 cursor-pointer ${
+                  isSelected(lang)
+                    ? 'bg-indigo-600 text-white'
+                    : 'text-gray-200 hover:bg-indigo-600/30'
+                }`}
+              >
+                <input
+                  type='checkbox'
+                  checked={isSelected(lang)}
+                  onChange={() => toggleLanguage(lang)}
+                  className='h-4 w-4 accent-indigo-400'
+                />
+                <span className='ml-3'>{languageName(lang.code)}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className='flex gap-2'>
+        <input
+          type='text'
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder={t('translate.presetName')}
+          className='flex-1 bg-gray-900/50 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 placeholder-gray-500'
+        />
+        <button
+          onClick={handleSavePreset}
+          disabled={!presetName.trim() || selected.length === 0}
+          className='px-3 py-2 text-sm font-semibold rounded-md bg-[#334155] hover:bg-[#475569] text-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+        >
+          {t('translate.savePreset')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LanguageSelector;
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { ProjectSummary, StorageUsage } from '../types';
+import {
+  deleteProject,
+  getStorageUsage,
+  listProjects,
+  renameProject,
+} from '../services/projectStore';
+import { describeError } from '../services/serviceErrors';
+import { useI18n } from '../i18n/I18nContext';
+
+interface ProjectSidebarProps {
+  isOpen: boolean;
+  currentProjectId: string | null;
+  // Changes whenever the current project is saved so the list refreshes.
+  revision: number;
+  onClose: () => void;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRenamed: (id: string, name: string) => void;
+  onDeleted: (id: string) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) {
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
+  isOpen,
+  currentProjectId,
+  revision,
+  onClose,
+  onOpen,
+  onNew,
+  onRenamed,
+  onDeleted,
+}) => {
+  const { t, languageName } = useI18n();
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [error, setError] = useState('');
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+      setUsage(await getStorageUsage());
+    } catch (err) {
+      console.error('Error listing projects:', err);
+      setError(t('projects.listFailed'));
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, revision]);
+
+  const handleRename = async (id: string) => {
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (!name) return;
+    setError('');
+    try {
+      await renameProject(id, name);
+      onRenamed(id, name);
+    } catch (err) {
+      console.error('Error renaming project:', err);
+      setError(describeError(err, t('projects.renameFailed'), t));
+    }
+    refresh();
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!window.confirm(t('projects.confirmDelete', { name: project.name }))) {
+      return;
+    }
+    setError('');
+    try {
+      await deleteProject(project.id);
+      onDeleted(project.id);
+    } catch (err) {
+      console.error('Error deleting project:', err);
+      setError(describeError(err, t('projects.deleteFailed'), t));
+    }
+    refresh();
+  };
+
+  if (!isOpen) return null;
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const filtered = projects.filter(
+    (project) =>
+      !normalizedQuery ||
+      project.name.toLowerCase().includes(normalizedQuery) ||
+      project.languageCodes.some((code) =>
+        languageName(code).toLowerCase().includes(normalizedQuery)
+      )
+  );
+  const usageRatio =
+    usage && usage.quotaBytes > 0 ? usage.usedBytes / usage.quotaBytes : 0;
+
+  return (
+    <div className='fixed inset-0 z-30 flex'>
+      <div className='flex-1 bg-black/50' onClick={onClose} />
+      <aside className='w-full max-w-sm h-full bg-[#1E293B] shadow-2xl p-5 flex flex-col gap-4 overflow-y-auto'>
+        <div className='flex items-center justify-between'>
+          <h2 className='text-xl font-semibold text-gray-200'>
+            {t('projects.heading')}
+          </h2>
+          <button
+            onClick={onClose}
+            className='text-gray-400 hover:text-white text-2xl leading-none'
+            aria-label={t('projects.close')}
+          >
+            ×
+          </button>
+        </div>
+
+        <button
+          onClick={onNew}
+          className='w-full py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white font-semibold transition-colors'
+        >
+          {t('projects.new')}
+        </button>
+
+        <input
+          type='search'
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('projects.search')}
+          className='w-full bg-gray-900/50 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 placeholder-gray-500'
+        />
+
+        {error && <p className='text-sm text-red-400'>{error}</p>}
+
+        <ul className='flex-1 space-y-2'>
+          {filtered.length === 0 && (
+            <li className='text-sm text-gray-500'>{t('projects.empty')}</li>
+          )}
+          {filtered.map((project) => (
+            <li
+              key={project.id}
+              className={`rounded-lg p-3 ${
+                project.id === currentProjectId
+                  ? 'bg-indigo-600/30 border border-indigo-500'
+                  : 'bg-[#334155]'
+              }`}
+            >
+              {renamingId === project.id ? (
+                <input
+                  autoFocus
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={() => handleRename(project.id)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename(project.id);
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className='w-full bg-gray-900/50 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200'
+                />
+              ) : (
+                <button
+                  onClick={() => onOpen(project.id)}
+                  className='w-full text-left font-semibold text-gray-200 hover:text-white truncate'
+                >
+                  {project.name}
+                </button>
+              )}
+              <p className='text-xs text-gray-400 mt-1'>
+                {new Date(project.updatedAt).toLocaleString()} ·{' '}
+                {formatBytes(project.sizeBytes)}
+                {project.languageCodes.length > 0 &&
+                  ` · ${project.languageCodes.map(languageName).join(', ')}`}
+              </p>
+              <div className='flex gap-3 mt-2 text-xs'>
+                <button
+                  onClick={() => {
+                    setRenamingId(project.id);
+                    setRenameValue(project.name);
+                  }}
+                  className='text-indigo-300 hover:text-indigo-200'
+                >
+                  {t('projects.rename')}
+                </button>
+                <button
+                  onClick={() => handleDelete(project)}
+                  className='text-red-400 hover:text-red-300'
+                >
+                  {t('projects.delete')}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {usage && usage.quotaBytes > 0 && (
+          <div className='text-xs text-gray-400'>
+            <div className='flex justify-between mb-1'>
+              <span>{t('projects.storage')}</span>
+              <span>
+                {formatBytes(usage.usedBytes)} / {formatBytes(usage.quotaBytes)}
+              </span>
+            </div>
+            <div className='h-2 bg-gray-700 rounded'>
+              <div
+                className={`h-2 rounded ${
+                  usageRatio > 0.9 ? 'bg-red-500' : 'bg-indigo-500'
+                }`}
+                style={{ width: `${Math.min(100, usageRatio * 100)}%` }}
+              />
+            </div>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default ProjectSidebar;
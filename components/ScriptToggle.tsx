@@ -0,0 +1,45 @@
+import React from 'react';
+import { SerbianScript } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+
+interface ScriptToggleProps {
+  script: SerbianScript;
+  onChange: (script: SerbianScript) => void;
+  className?: string;
+}
+
+const SCRIPTS: SerbianScript[] = ['latin', 'cyrillic'];
+
+// Switches Serbian text between Latin and Cyrillic.
+const ScriptToggle: React.FC<ScriptToggleProps> = ({
+  script,
+  onChange,
+  className = '',
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <div
+      role='group'
+      aria-label={t('script.label')}
+      className={`inline-flex rounded-lg overflow-hidden border border-gray-600 text-xs font-semibold ${className}`}
+    >
+      {SCRIPTS.map((option) => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          aria-pressed={script === option}
+          className={`px-2 py-1 transition-colors ${
+            script === option
+              ? 'bg-indigo-600 text-white'
+              : 'bg-[#334155] text-gray-300 hover:bg-[#475569]'
+          }`}
+        >
+          {t(`script.${option}`)}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ScriptToggle;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Speaker, TranscriptSegment } from '../types';
+import { joinSegmentTexts } from '../utils/subtitleUtils';
+import { speakerName } from '../utils/speakerUtils';
+import { useI18n } from '../i18n/I18nContext';
+
+interface SegmentEditorProps {
+  text: string;
+  segments: TranscriptSegment[];
+  speakers?: Speaker[];
+  onSave: (text: string, segments: TranscriptSegment[]) => void;
+  onCancel: () => void;
+}
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+// Timed text is edited segment by segment so subtitle timing survives edits;
+// untimed text gets a single text area.
+const SegmentEditor: React.FC<SegmentEditorProps> = ({
+  text,
+  segments,
+  speakers = [],
+  onSave,
+  onCancel,
+}) => {
+  const { t } = useI18n();
+  const [draftText, setDraftText] = useState(text);
+  const [draftSegments, setDraftSegments] = useState(
+    segments.map((segment) => segment.text)
+  );
+
+  const handleSave = () => {
+    if (segments.length === 0) {
+      onSave(draftText.trim(), []);
+      return;
+    }
+    const edited = segments.map((segment, i) => ({
+      ...segment,
+      text: draftSegments[i].trim(),
+    }));
+    onSave(
+      joinSegmentTexts(edited.map((segment) => segment.text)),
+      edited
+    );
+  };
+
+  return (
+    <div className='space-y-2'>
+      {segments.length === 0 ? (
+        <textarea
+          value={draftText}
+          onChange={(e) => setDraftText(e.target.value)}
+          rows={8}
+          className='w-full bg-gray-900/50 border border-gray-600 rounded-md p-3 text-gray-200'
+        />
+      ) : (
+        <div className='max-h-96 overflow-y-auto space-y-2 pr-1'>
+          {segments.map((segment, i) => (
+            <div key={i}>
+              <div className='text-xs text-gray-500 mb-1'>
+                {formatTime(segment.start)} – {formatTime(segment.end)}
+                {segment.speaker && ` · ${speakerName(speakers, segment.speaker)}`}
+              </div>
+              <textarea
+                value={draftSegments[i]}
+                onChange={(e) =>
+                  setDraftSegments((current) =>
+                    current.map((value, j) => (j === i ? e.target.value : value))
+                  )
+                }
+                rows={2}
+                className='w-full bg-gray-900/50 border border-gray-600 rounded-md p-2 text-sm text-gray-200'
+              />
+            </div>
+          ))}
+        </div>
+      )}
+      <div className='flex justify-end gap-2'>
+        <button
+          onClick={onCancel}
+          className='px-3 py-1 text-sm rounded-md bg-[#334155] hover:bg-[#475569] text-gray-200'
+        >
+          {t('editor.cancel')}
+        </button>
+        <button
+          onClick={handleSave}
+          className='px-3 py-1 text-sm font-semibold rounded-md bg-indigo-600 hover:bg-indigo-700 text-white'
+        >
+          {t('editor.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SegmentEditor;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Speaker, TranscriptSegment } from '../types';
+import { speakerName, toSpeakerTurns } from '../utils/speakerUtils';
+
+interface SegmentTextProps {
+  text: string;
+  segments: TranscriptSegment[];
+  speakers: Speaker[];
+}
+
+// Shows diarized text as one paragraph per speaker turn, plain text otherwise.
+const SegmentText: React.FC<SegmentTextProps> = ({
+  text,
+  segments,
+  speakers,
+}) => {
+  if (speakers.length === 0 || !segments.some((segment) => segment.speaker)) {
+    return <p className='whitespace-pre-wrap'>{text}</p>;
+  }
+
+  return (
+    <div className='space-y-2'>
+      {toSpeakerTurns(segments).map((turn, i) => (
+        <p key={i} className='whitespace-pre-wrap'>
+          {turn.speaker && (
+            <span className='font-semibold text-indigo-400'>
+              {speakerName(speakers, turn.speaker)}:{' '}
+            </span>
+          )}
+          {turn.text}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default SegmentText;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Speaker } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+
+interface SpeakerNamesEditorProps {
+  speakers: Speaker[];
+  onRename: (id: string, name: string) => void;
+}
+
+const SpeakerNamesEditor: React.FC<SpeakerNamesEditorProps> = ({
+  speakers,
+  onRename,
+}) => {
+  const { t } = useI18n();
+  if (speakers.length === 0) return null;
+
+  return (
+    <div className='mt-4'>
+      <h3 className='text-sm font-medium text-gray-400 mb-2'>
+        {t('speakers.heading')}
+      </h3>
+      <div className='grid grid-cols-1 sm:grid-cols-2 gap-2'>
+        {speakers.map((speaker) => (
+          <input
+            key={speaker.id}
+            type='text'
+            value={speaker.name}
+            onChange={(e) => onRename(speaker.id, e.target.value)}
+            aria-label={t('speakers.nameLabel', { id: speaker.id })}
+            className='bg-gray-900/50 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200'
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SpeakerNamesEditor;
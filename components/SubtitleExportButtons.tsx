@@ -0,0 +1,47 @@
+import React from 'react';
+import { Speaker, TranscriptSegment } from '../types';
+import { SubtitleFormat, subtitleBlob } from '../utils/subtitleUtils';
+import { downloadBlob } from '../utils/downloadUtils';
+import { useI18n } from '../i18n/I18nContext';
+
+interface SubtitleExportButtonsProps {
+  segments: TranscriptSegment[];
+  speakers?: Speaker[];
+  // File name without extension, e.g. "transkript" or "prevod_en".
+  baseName: string;
+  className?: string;
+}
+
+const FORMATS: SubtitleFormat[] = ['srt', 'vtt'];
+
+const SubtitleExportButtons: React.FC<SubtitleExportButtonsProps> = ({
+  segments,
+  speakers = [],
+  baseName,
+  className = '',
+}) => {
+  const { t } = useI18n();
+  if (segments.length === 0) return null;
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <span className='text-sm text-gray-400'>{t('subtitles.label')}</span>
+      {FORMATS.map((format) => (
+        <button
+          key={format}
+          onClick={() =>
+            downloadBlob(
+              subtitleBlob(segments, format, speakers),
+              `${baseName}.${format}`
+            )
+          }
+          className='text-xs font-semibold uppercase px-2 py-1 rounded bg-[#334155] hover:bg-[#475569] text-gray-200 transition-colors'
+        >
+          .{format}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default SubtitleExportButtons;
@@ -0,0 +1,120 @@
+import React, { useRef, useState } from 'react';
+import { Transcript } from '../types';
+import { LANGUAGES } from '../constants';
+import { TEXT_IMPORT_ACCEPT, transcriptFromText } from '../utils/textImport';
+import { describeError } from '../services/serviceErrors';
+import { useI18n } from '../i18n/I18nContext';
+
+interface TextImportProps {
+  // Preselected language; empty when the user still has to choose one.
+  initialLanguageCode: string;
+  onImport: (transcript: Transcript, name: string) => void;
+  disabled?: boolean;
+}
+
+// Starts a session from existing text instead of audio: pasted text or a
+// .txt, .srt or .vtt file becomes the transcript.
+const TextImport: React.FC<TextImportProps> = ({
+  initialLanguageCode,
+  onImport,
+  disabled = false,
+}) => {
+  const { t, languageName } = useI18n();
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [languageCode, setLanguageCode] = useState(initialLanguageCode);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError('');
+    try {
+      setContent(await file.text());
+      setFileName(file.name);
+    } catch (err) {
+      console.error('Error reading text file:', err);
+      setError(t('textImport.readFailed'));
+    }
+  };
+
+  const handleSubmit = () => {
+    setError('');
+    try {
+      onImport(
+        transcriptFromText(content, languageCode),
+        fileName || t('textImport.pastedName')
+      );
+    } catch (err) {
+      setError(describeError(err, t('error.unknown'), t));
+    }
+  };
+
+  return (
+    <div className='mt-4 space-y-3'>
+      <textarea
+        value={content}
+        onChange={(e) => {
+          setContent(e.target.value);
+          setFileName('');
+        }}
+        placeholder={t('textImport.placeholder')}
+        aria-label={t('textImport.placeholder')}
+        rows={6}
+        disabled={disabled}
+        className='w-full bg-gray-900/50 border border-gray-600 rounded-md p-3 text-sm text-gray-200'
+      />
+      {fileName && (
+        <p className='text-sm text-gray-400'>
+          {t('input.selectedFile')}{' '}
+          <span className='font-medium text-indigo-400'>{fileName}</span>
+        </p>
+      )}
+      <div className='flex flex-col sm:flex-row gap-3'>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          className='bg-[#334155] hover:bg-[#475569] text-gray-200 font-semibold py-2 px-3 rounded-lg text-sm disabled:opacity-50'
+        >
+          {t('textImport.chooseFile')}
+        </button>
+        <input
+          ref={fileInputRef}
+          type='file'
+          accept={TEXT_IMPORT_ACCEPT}
+          className='hidden'
+          onChange={handleFile}
+        />
+        <select
+          value={languageCode}
+          onChange={(e) => setLanguageCode(e.target.value)}
+          disabled={disabled}
+          aria-label={t('textImport.language')}
+          className='flex-1 bg-[#334155] text-gray-200 py-2 px-3 rounded-lg border border-gray-600 text-sm'
+        >
+          <option value='' disabled>
+            {t('textImport.language')}
+          </option>
+          {LANGUAGES.map((lang) => (
+            <option key={lang.code} value={lang.code}>
+              {languageName(lang.code)}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleSubmit}
+          disabled={disabled || !content.trim() || !languageCode}
+          className='bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg text-sm disabled:opacity-50 disabled:cursor-not-allowed'
+        >
+          {t('textImport.use')}
+        </button>
+      </div>
+      <p className='text-xs text-gray-500'>{t('textImport.hint')}</p>
+      {error && <p className='text-sm text-red-400'>{error}</p>}
+    </div>
+  );
+};
+
+export default TextImport;
@@ -1,123 +1,524 @@
-
-import React, { useState, useCallback } from 'react';
-import { Translation, AudioInfo } from '../types';
-import { generateSpeech } from '../services/geminiService';
-import { decodeBase64, pcmToWavBlob, convertUint8ArrayToInt16Array } from '../utils/audioUtils';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
+import { Translation, AudioInfo, NarrationTake, Speaker, TextVersion, Transcript, GlossaryEntry, QualityReport, RequestOptions, SerbianScript } from '../types';
+import { getSpeechProvider } from '../services/speechProvider';
+import { estimateSpeechUsage, estimateTranslationUsage } from '../services/usageTracking';
+import { generateNarration, PcmChunkHandler } from '../services/narration';
+import { generateDubbingTrack } from '../services/dubbing';
+import { runQualityCheck } from '../services/qualityCheck';
+import { describeError } from '../services/serviceErrors';
+import { isAbortError } from '../utils/asyncUtils';
+import { base64PcmToWavBlob, pcmToWavBlob } from '../utils/audioUtils';
+import { createPcmStreamPlayer } from '../utils/pcmStreamPlayer';
+import { audioManager } from '../utils/audioManager';
+import { getPreferredVoice, setPreferredVoice } from '../utils/voicePreferences';
+import { speakersInSegments } from '../utils/speakerUtils';
+import { checkGlossary } from '../utils/glossary';
+import { confirmWithinBudget } from '../utils/usageStore';
+import { getPreferredSerbianScript, transliterateText } from '../utils/serbianScript';
+import { QA_SIMILARITY_ERROR, QA_SIMILARITY_WARNING, SPEAKER_VOICE_ROTATION, TTS_SAMPLE_RATE, VOICE_PREVIEW_LENGTH, VOICES } from '../constants';
+import { useI18n } from '../i18n/I18nContext';
 import Loader from './Loader';
+import SubtitleExportButtons from './SubtitleExportButtons';
+import VoiceSettings from './VoiceSettings';
+import SegmentText from './SegmentText';
+import SegmentEditor from './SegmentEditor';
+import VersionHistory from './VersionHistory';
+import ExportDialog from './ExportDialog';
+import AudioPlayer from './AudioPlayer';
+import ScriptToggle from './ScriptToggle';
 
 interface TranslationCardProps {
     translation: Translation;
+    speakers?: Speaker[];
+    history?: TextVersion[];
+    // Called with the edited or restored translation and a history label.
+    onChange?: (translation: Translation, label: string) => void;
+    // Narration takes for this language, newest first.
+    takes?: NarrationTake[];
+    onAddTake?: (take: NarrationTake) => void;
+    // Used in export file names and metadata.
+    projectName?: string;
+    // The original recording, used to time and mix dubbing tracks.
+    sourceAudio?: File | null;
+    // The transcript this was translated from, checked against the glossary.
+    source?: Transcript | null;
+    glossary?: GlossaryEntry[];
+    // The translation came from the result cache; `onRefresh` requests it again.
+    fromCache?: boolean;
+    isRefreshing?: boolean;
+    onRefresh?: () => void;
 }
 
-// Audio context should be created on user interaction
-let audioContext: AudioContext | null = null;
+const PREVIEW_ID = 'preview';
+
+const formatTime = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+// Gives each speaker a distinct voice, starting with the card's chosen voice.
+const initialSpeakerVoices = (speakerIds: string[], voiceName: string): Record<string, string> => {
+    const rotation = [voiceName, ...SPEAKER_VOICE_ROTATION.filter(v => v !== voiceName)];
+    return Object.fromEntries(speakerIds.map((id, i) => [id, rotation[i % rotation.length]]));
+};
+
+const badgeClass = (level: 'ok' | 'warning' | 'error') => ({
+    ok: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+    warning: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+    error: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+}[level]);
+
+const QualityBadges: React.FC<{ report: QualityReport; isStale: boolean }> = ({ report, isStale }) => {
+    const { t, languageName } = useI18n();
+    const similarityLevel = report.similarity < QA_SIMILARITY_ERROR ? 'error' : report.similarity < QA_SIMILARITY_WARNING ? 'warning' : 'ok';
+    return (
+        <div className={`flex flex-wrap gap-1.5 mb-3 text-xs font-semibold ${isStale ? 'opacity-50' : ''}`} title={isStale ? t('quality.staleTitle') : undefined}>
+            <span className={`px-2 py-0.5 rounded-full ${badgeClass(similarityLevel)}`} title={t('quality.similarityTitle')}>
+                {t('quality.similarity', { percent: Math.round(report.similarity * 100) })}
+            </span>
+            <span className={`px-2 py-0.5 rounded-full ${badgeClass(report.lengthOutliers.length > 0 ? 'warning' : 'ok')}`} title={report.lengthOutliers.map(o => `${t('card.segment', { number: o.segmentIndex + 1 })}: ×${o.ratio.toFixed(2)}`).join('\n') || t('quality.lengthTitle')}>
+                {t('quality.length', { ratio: report.lengthRatio.toFixed(2) })}{report.lengthOutliers.length > 0 && ` · ${t('quality.lengthOutliers', { count: report.lengthOutliers.length })}`}
+            </span>
+            {report.untranslatedSegments.length > 0 && (
+                <span className={`px-2 py-0.5 rounded-full ${badgeClass('error')}`}>
+                    {t('quality.untranslated', { segments: report.untranslatedSegments.map(i => i + 1).join(', ') })}
+                </span>
+            )}
+            {report.wrongLanguage && (
+                <span className={`px-2 py-0.5 rounded-full ${badgeClass('error')}`}>
+                    {report.wrongLanguage === 'script' ? t('quality.wrongScript') : t('quality.wrongLanguage', { language: languageName(report.wrongLanguage) })}
+                </span>
+            )}
+            {isStale && <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">{t('card.stale')}</span>}
+        </div>
+    );
+};
 
-const TranslationCard: React.FC<TranslationCardProps> = ({ translation }) => {
+const TranslationCard: React.FC<TranslationCardProps> = ({ translation, speakers = [], history = [], onChange, takes = [], onAddTake, projectName = '', sourceAudio = null, source = null, glossary = [], fromCache = false, isRefreshing = false, onRefresh }) => {
+    const { t, languageName } = useI18n();
     const [isGeneratingAudio, setIsGeneratingAudio] = useState(false);
-    const [audioInfo, setAudioInfo] = useState<AudioInfo | null>(null);
     const [error, setError] = useState<string>('');
-    const [isPlaying, setIsPlaying] = useState(false);
+    const [voiceName, setVoiceName] = useState(() => getPreferredVoice(translation.languageCode));
+    const [style, setStyle] = useState('');
+    const [isPreviewing, setIsPreviewing] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [exporting, setExporting] = useState<{ take: NarrationTake; takeNumber: number } | null>(null);
+    const [mixOriginal, setMixOriginal] = useState(false);
+    const [bypassCache, setBypassCache] = useState(false);
+    const [dubbingProgress, setDubbingProgress] = useState<{ done: number; total: number } | null>(null);
+    const [qualityReport, setQualityReport] = useState<QualityReport | null>(null);
+    const [isCheckingQuality, setIsCheckingQuality] = useState(false);
+    const [isBackTranslationOpen, setIsBackTranslationOpen] = useState(false);
+    const [script, setScript] = useState<SerbianScript>(getPreferredSerbianScript);
+    const isSerbian = translation.languageCode === 'sr';
+    // Serbian output is shown, edited and exported in the chosen script.
+    const displayed = useMemo(() => isSerbian ? transliterateText(translation, script) : translation, [isSerbian, translation, script]);
+    const hasSpeakers = speakers.length > 0;
+    const speakerIds = useMemo(() => hasSpeakers ? speakersInSegments(translation.segments) : [], [hasSpeakers, translation.segments]);
+    const [speakerVoices, setSpeakerVoices] = useState<Record<string, string>>(() => initialSpeakerVoices(speakerIds, voiceName));
+    // Previews are cached per voice and style so comparing voices costs one request each.
+    const previewsRef = useRef<Map<string, AudioInfo>>(new Map());
+    // Narration and dubbing run one at a time and share the cancel button.
+    const generationAbortRef = useRef<AbortController | null>(null);
+
+    const synthesize = async (text: string): Promise<AudioInfo> => {
+        const base64Audio = await getSpeechProvider().generateSpeech(text, { voiceName, style: style.trim() || undefined });
+        const blob = base64PcmToWavBlob(base64Audio, TTS_SAMPLE_RATE);
+        const url = URL.createObjectURL(blob);
+        return { url, blob };
+    };
+
+    const synthesizeNarration = async (requestOptions: RequestOptions, onChunk?: PcmChunkHandler): Promise<AudioInfo> => {
+        const pcm = await generateNarration(getSpeechProvider(), {
+            text: translation.text,
+            segments: speakerIds.length > 0 ? translation.segments : [],
+            voiceName,
+            style: style.trim() || undefined,
+            speakerVoices,
+            ...requestOptions,
+        }, onChunk);
+        const blob = pcmToWavBlob(pcm, TTS_SAMPLE_RATE, 1);
+        const url = URL.createObjectURL(blob);
+        return { url, blob };
+    };
+
+    const withinBudget = (text: string) => confirmWithinBudget([estimateSpeechUsage(getSpeechProvider().models.speech, text)], t);
 
     const handleGenerateAudio = useCallback(async () => {
+        if (!withinBudget(translation.text)) return;
         setIsGeneratingAudio(true);
         setError('');
-        setAudioInfo(null);
+        const takeId = `${Date.now()}`;
+        const playerId = `${translation.languageCode}:${takeId}`;
+        // Narration starts playing as soon as its first chunk arrives.
+        const player = createPcmStreamPlayer(audioManager.getContext(), TTS_SAMPLE_RATE, audioManager.getOutput());
+        audioManager.claim(playerId, player.stop);
+        const controller = new AbortController();
+        generationAbortRef.current = controller;
+        let fromCache = false;
         try {
-            if (!audioContext) {
-                 audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+            const audio = await synthesizeNarration({
+                signal: controller.signal,
+                forceRefresh: bypassCache,
+                onCacheHit: () => (fromCache = true),
+            }, player.push);
+            // Earlier takes stay available for comparison.
+            onAddTake?.({
+                id: takeId,
+                voiceName: speakerIds.length > 1 ? speakerIds.map(id => speakerVoices[id] ?? voiceName).join(' + ') : voiceName,
+                style: style.trim(),
+                text: translation.text,
+                audio,
+                createdAt: Date.now(),
+                fromCache,
+            });
+            player.finish().then(() => audioManager.release(playerId));
+        } catch (err) {
+            player.stop();
+            audioManager.release(playerId);
+            if (!isAbortError(err)) {
+                setError(describeError(err, t('card.speechFailed'), t));
             }
+        } finally {
+            generationAbortRef.current = null;
+            setIsGeneratingAudio(false);
+        }
+    }, [translation.languageCode, translation.text, translation.segments, voiceName, style, speakerVoices, speakerIds, bypassCache, onAddTake, t]);
 
-            const base64Audio = await generateSpeech(translation.text);
-            const pcmDataUint8 = decodeBase64(base64Audio);
-            const pcmDataInt16 = convertUint8ArrayToInt16Array(pcmDataUint8);
-            
-            const blob = pcmToWavBlob(pcmDataInt16, 24000, 1);
-            const url = URL.createObjectURL(blob);
-            setAudioInfo({ url, blob });
+    const handleGenerateDubbing = useCallback(async () => {
+        if (!withinBudget(translation.text)) return;
+        setDubbingProgress({ done: 0, total: translation.segments.length });
+        setError('');
+        const controller = new AbortController();
+        generationAbortRef.current = controller;
+        let fromCache = false;
+        try {
+            const { pcm, clips } = await generateDubbingTrack(getSpeechProvider(), {
+                segments: translation.segments,
+                voiceName,
+                style: style.trim() || undefined,
+                speakerVoices: speakerIds.length > 0 ? speakerVoices : {},
+                sourceAudio,
+                mixOriginal,
+                signal: controller.signal,
+                forceRefresh: bypassCache,
+                onCacheHit: () => (fromCache = true),
+                onProgress: (done, total) => setDubbingProgress({ done, total }),
+            });
+            const blob = pcmToWavBlob(pcm, TTS_SAMPLE_RATE, 1);
+            onAddTake?.({
+                id: `${Date.now()}`,
+                voiceName: t('card.dubbingTake', { voices: speakerIds.length > 1 ? speakerIds.map(id => speakerVoices[id] ?? voiceName).join(' + ') : voiceName }),
+                style: style.trim(),
+                text: translation.text,
+                audio: { url: URL.createObjectURL(blob), blob },
+                createdAt: Date.now(),
+                dubbingClips: clips,
+                fromCache,
+            });
+        } catch (err) {
+            if (!isAbortError(err)) {
+                setError(describeError(err, t('card.dubbingFailed'), t));
+            }
+        } finally {
+            generationAbortRef.current = null;
+            setDubbingProgress(null);
+        }
+    }, [translation.text, translation.segments, voiceName, style, speakerVoices, speakerIds, sourceAudio, mixOriginal, bypassCache, onAddTake, t]);
 
+    const handlePreview = useCallback(async () => {
+        setError('');
+        const previewId = `${translation.languageCode}:${PREVIEW_ID}`;
+        const previewKey = `${voiceName}|${style.trim()}`;
+        const cached = previewsRef.current.get(previewKey);
+        if (cached) {
+            try {
+                await audioManager.play(previewId, cached.blob);
+            } catch (err) {
+                setError(describeError(err, t('card.speechFailed'), t));
+            }
+            return;
+        }
+        const sample = translation.text.slice(0, VOICE_PREVIEW_LENGTH);
+        if (!withinBudget(sample)) return;
+        setIsPreviewing(true);
+        try {
+            const audio = await synthesize(sample);
+            previewsRef.current.set(previewKey, audio);
+            await audioManager.play(previewId, audio.blob);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'Nepoznata greška pri generisanju zvuka.');
+            setError(describeError(err, t('card.speechFailed'), t));
         } finally {
-            setIsGeneratingAudio(false);
+            setIsPreviewing(false);
         }
-    }, [translation.text]);
+    }, [translation.languageCode, translation.text, voiceName, style, t]);
 
-    const handlePlayAudio = useCallback(async () => {
-        if (!audioInfo || !audioContext) return;
+    const handleQualityCheck = async () => {
+        if (!source) return;
+        // The back-translation is one translation request into the source language.
+        const estimate = estimateTranslationUsage(getSpeechProvider().models.translation, translation.text, 1);
+        if (!confirmWithinBudget([estimate], t)) return;
+        setIsCheckingQuality(true);
+        setError('');
+        try {
+            setQualityReport(await runQualityCheck(getSpeechProvider(), source, translation));
+        } catch (err) {
+            setError(describeError(err, t('card.qualityFailed'), t));
+        } finally {
+            setIsCheckingQuality(false);
+        }
+    };
 
-        setIsPlaying(true);
-        const arrayBuffer = await audioInfo.blob.arrayBuffer();
-        
-        // Skip WAV header (44 bytes) to get raw PCM data for AudioContext
-        const pcmData = arrayBuffer.slice(44);
+    const handleEditSave = (text: string, segments: Translation['segments']) => {
+        onChange?.({ ...translation, text, segments }, t('history.edit'));
+        setIsEditing(false);
+    };
 
-        const audioBuffer = audioContext.createBuffer(1, pcmData.byteLength / 2, 24000);
-        const channelData = audioBuffer.getChannelData(0);
-        const pcmInt16 = new Int16Array(pcmData);
+    const handleRestore = (version: TextVersion) => {
+        onChange?.({ ...translation, text: version.text, segments: version.segments }, t('history.restored'));
+    };
 
-        for (let i = 0; i < pcmInt16.length; i++) {
-            channelData[i] = pcmInt16[i] / 32768.0;
-        }
+    const glossaryViolations = useMemo(
+        () => source ? checkGlossary(source.segments, source.text, translation, glossary) : [],
+        [source, translation, glossary]
+    );
 
-        const source = audioContext.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(audioContext.destination);
-        source.onended = () => setIsPlaying(false);
-        source.start();
-
-    }, [audioInfo]);
-    
-    const handleDownload = () => {
-        if (!audioInfo) return;
-        const link = document.createElement('a');
-        link.href = audioInfo.url;
-        link.download = `prevod_${translation.languageCode}.wav`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+    // Takes narrated from an older text no longer match the translation.
+    const hasStaleTakes = takes.some(take => take.text !== translation.text);
+
+    const handleVoiceChange = (name: string) => {
+        setVoiceName(name);
+        setPreferredVoice(translation.languageCode, name);
+    };
+
+    const handleDownload = (take: NarrationTake, takeNumber: number) => {
+        setExporting({ take, takeNumber });
     };
 
     return (
         <div className="bg-white dark:bg-gray-800 shadow-lg rounded-xl p-5 flex flex-col h-full">
-            <h3 className="text-xl font-bold text-blue-600 dark:text-blue-400 mb-3">{translation.languageName}</h3>
-            <div className="text-gray-600 dark:text-gray-300 bg-gray-50 dark:bg-gray-700/50 p-4 rounded-md flex-grow mb-4 overflow-y-auto max-h-48">
-                <p className="whitespace-pre-wrap">{translation.text}</p>
+            <div className="flex items-baseline justify-between gap-2 mb-3">
+                <h3 className="text-xl font-bold text-blue-600 dark:text-blue-400">{languageName(translation.languageCode)}</h3>
+                {isSerbian && <ScriptToggle script={script} onChange={setScript} className="ml-auto" />}
+                {fromCache && (
+                    <button onClick={onRefresh} disabled={!onRefresh || isRefreshing} title={t('card.cachedTitle')} className="text-xs font-semibold text-sky-600 dark:text-sky-400 hover:underline disabled:opacity-50">
+                        {isRefreshing ? t('card.refreshing') : t('cache.refresh')}
+                    </button>
+                )}
             </div>
+            {qualityReport && <QualityBadges report={qualityReport} isStale={qualityReport.checkedText !== translation.text} />}
+            {isEditing ? (
+                <div className="mb-4">
+                    <SegmentEditor text={displayed.text} segments={displayed.segments} speakers={speakers} onSave={handleEditSave} onCancel={() => setIsEditing(false)} />
+                </div>
+            ) : (
+                <div className="text-gray-600 dark:text-gray-300 bg-gray-50 dark:bg-gray-700/50 p-4 rounded-md flex-grow mb-4 overflow-y-auto max-h-48">
+                    <SegmentText text={displayed.text} segments={displayed.segments} speakers={speakers} />
+                </div>
+            )}
+            {onChange && (
+                <div className="flex gap-3 text-sm mb-3">
+                    {!isEditing && (
+                        <button onClick={() => setIsEditing(true)} className="text-blue-500 dark:text-blue-400 hover:underline font-semibold">{t('card.edit')}</button>
+                    )}
+                    <button onClick={() => setIsHistoryOpen(!isHistoryOpen)} className="text-blue-500 dark:text-blue-400 hover:underline font-semibold">{t('history.button', { count: history.length })}</button>
+                </div>
+            )}
+            {source && (
+                <div className="flex gap-3 text-sm mb-3">
+                    <button onClick={handleQualityCheck} disabled={isCheckingQuality} className="text-blue-500 dark:text-blue-400 hover:underline font-semibold disabled:opacity-50">
+                        {isCheckingQuality ? t('card.checkingQuality') : qualityReport ? t('card.recheckQuality') : t('card.checkQuality')}
+                    </button>
+                    {qualityReport && (
+                        <button onClick={() => setIsBackTranslationOpen(!isBackTranslationOpen)} className="text-blue-500 dark:text-blue-400 hover:underline font-semibold">
+                            {t('card.backTranslation')}
+                        </button>
+                    )}
+                </div>
+            )}
+            {qualityReport && isBackTranslationOpen && source && (
+                <div className="mb-4 text-sm space-y-2 max-h-60 overflow-y-auto">
+                    {qualityReport.backTranslation.map((back, i) => {
+                        const original = source.segments.length > 0 ? source.segments[i]?.text : source.text;
+                        const isOutlier = qualityReport.lengthOutliers.some(outlier => outlier.segmentIndex === i) || qualityReport.untranslatedSegments.includes(i);
+                        return (
+                            <div key={i} className={`grid grid-cols-2 gap-2 p-2 rounded-md ${isOutlier ? 'bg-amber-50 dark:bg-amber-900/30' : 'bg-gray-50 dark:bg-gray-700/50'}`}>
+                                <p className="text-gray-600 dark:text-gray-300">{original}</p>
+                                <p className="text-gray-500 dark:text-gray-400 italic">{back}</p>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+            {isHistoryOpen && (
+                <div className="mb-4">
+                    <VersionHistory versions={history} currentText={translation.text} onRestore={handleRestore} />
+                </div>
+            )}
+            {glossaryViolations.length > 0 && (
+                <div className="mb-4 p-3 rounded-md bg-amber-50 dark:bg-amber-900/30 border border-amber-300 dark:border-amber-700 text-sm">
+                    <p className="font-semibold text-amber-700 dark:text-amber-300 mb-1">{t('card.glossaryViolations', { count: glossaryViolations.length })}</p>
+                    <ul className="space-y-0.5 text-amber-800 dark:text-amber-200">
+                        {glossaryViolations.map((violation, i) => (
+                            <li key={i}>
+                                {violation.segmentIndex >= 0 && <span className="text-amber-600 dark:text-amber-400">{t('card.segment', { number: violation.segmentIndex + 1 })}: </span>}
+                                {violation.expected === violation.term ? t('card.glossaryKeep', { term: violation.term }) : t('card.glossaryExpected', { term: violation.term, expected: violation.expected })}
+                                {violation.segmentIndex >= 0 && translation.segments[violation.segmentIndex] && (
+                                    <span className="block pl-3 italic text-amber-700/80 dark:text-amber-300/80 truncate">{translation.segments[violation.segmentIndex].text}</span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            <SubtitleExportButtons segments={displayed.segments} speakers={speakers} baseName={`prevod_${translation.languageCode}`} className="mb-4" />
             {error && <p className="text-sm text-red-500 dark:text-red-400 mb-2">{error}</p>}
             <div className="mt-auto pt-4 border-t border-gray-200 dark:border-gray-700">
-                {audioInfo ? (
-                    <div className="flex items-center space-x-2">
-                         <button onClick={handlePlayAudio} disabled={isPlaying} className="flex-1 bg-green-500 hover:bg-green-600 text-white font-semibold py-2 px-3 rounded-lg flex items-center justify-center transition-colors disabled:bg-green-300">
-                            {isPlaying ? (
-                                <span className="w-5 h-5 block border-2 border-white rounded-full border-t-transparent animate-spin"></span>
-                            ) : (
-                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" /></svg>
-                            )}
-                            Pusti
-                        </button>
-                        <button onClick={handleDownload} className="bg-gray-500 hover:bg-gray-600 text-white font-semibold py-2 px-3 rounded-lg flex items-center justify-center transition-colors">
-                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                <VoiceSettings
+                    idPrefix={`card-${translation.languageCode}`}
+                    voiceName={voiceName}
+                    style={style}
+                    onVoiceChange={handleVoiceChange}
+                    onStyleChange={setStyle}
+                    onPreview={handlePreview}
+                    isPreviewing={isPreviewing}
+                    disabled={isGeneratingAudio || dubbingProgress !== null}
+                />
+                {speakerIds.length > 1 && (
+                    <div className="mb-3 space-y-2">
+                        <p className="text-sm font-medium text-gray-500 dark:text-gray-400">{t('card.speakerVoices')}</p>
+                        {speakerIds.map(id => (
+                            <div key={id} className="flex items-center gap-2">
+                                <span className="flex-1 min-w-0 truncate text-sm text-gray-700 dark:text-gray-200">{speakers.find(s => s.id === id)?.name ?? id}</span>
+                                <select
+                                    value={speakerVoices[id] ?? voiceName}
+                                    onChange={(e) => setSpeakerVoices(current => ({ ...current, [id]: e.target.value }))}
+                                    disabled={isGeneratingAudio || dubbingProgress !== null}
+                                    className="bg-gray-50 dark:bg-gray-700 text-gray-700 dark:text-gray-200 text-sm py-1 px-2 rounded-lg border border-gray-300 dark:border-gray-600"
+                                >
+                                    {VOICES.map(voice => (
+                                        <option key={voice.name} value={voice.name}>{voice.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {takes.some(take => take.fromCache) && (
+                    <label className="mb-2 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={bypassCache}
+                            onChange={(e) => setBypassCache(e.target.checked)}
+                            disabled={isGeneratingAudio || dubbingProgress !== null}
+                        />
+                        {t('card.bypassCache')}
+                    </label>
+                )}
+                <button
+                    onClick={handleGenerateAudio}
+                    disabled={isGeneratingAudio || dubbingProgress !== null}
+                    className="w-full flex justify-center items-center bg-blue-500 hover:bg-blue-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors disabled:bg-blue-300"
+                >
+                    {isGeneratingAudio ? (
+                       <Loader size="5" className="text-white" />
+                    ) : (
+                        <>
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor">
+                              <path d="M18 3a1 1 0 00-1.447-.894L4.447 8.106A1 1 0 004 9v2a1 1 0 00.553.894l12 6A1 1 0 0018 17V3z" />
+                            </svg>
+                            {hasStaleTakes ? t('card.generateStale') : takes.length > 0 ? t('card.generateNew') : t('card.generate')}
+                        </>
+                    )}
+                </button>
+                {translation.segments.length > 0 && (
+                    <div className="mt-3 space-y-2">
+                        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={mixOriginal}
+                                onChange={(e) => setMixOriginal(e.target.checked)}
+                                disabled={!sourceAudio || dubbingProgress !== null}
+                            />
+                            {t('card.mixOriginal')}
+                        </label>
+                        <button
+                            onClick={handleGenerateDubbing}
+                            disabled={isGeneratingAudio || dubbingProgress !== null}
+                            className="w-full flex justify-center items-center bg-indigo-500 hover:bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors disabled:bg-indigo-300"
+                        >
+                            {dubbingProgress ? (
+                                <>
+                                    <Loader size="5" className="text-white mr-2" />
+                                    {t('card.dubbingProgress', dubbingProgress)}
+                                </>
+                            ) : t('card.generateDubbing')}
                         </button>
                     </div>
-                ) : (
+                )}
+                {(isGeneratingAudio || dubbingProgress !== null) && (
                     <button
-                        onClick={handleGenerateAudio}
-                        disabled={isGeneratingAudio}
-                        className="w-full flex justify-center items-center bg-blue-500 hover:bg-blue-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors disabled:bg-blue-300"
+                        onClick={() => generationAbortRef.current?.abort()}
+                        className="mt-2 w-full py-2 rounded-lg bg-gray-500 hover:bg-red-600 text-white text-sm font-semibold transition-colors"
                     >
-                        {isGeneratingAudio ? (
-                           <Loader size="5" className="text-white" />
-                        ) : (
-                            <>
-                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor">
-                                  <path d="M18 3a1 1 0 00-1.447-.894L4.447 8.106A1 1 0 004 9v2a1 1 0 00.553.894l12 6A1 1 0 0018 17V3z" />
-                                </svg>
-                                Generiši glasovnu naraciju
-                            </>
-                        )}
+                        {isGeneratingAudio ? t('card.cancelNarration') : t('card.cancelDubbing')}
                     </button>
                 )}
+                {takes.length > 0 && (
+                    <ul className="mt-3 space-y-2">
+                        {takes.map((take, i) => {
+                            const takeNumber = takes.length - i;
+                            const flaggedClips = (take.dubbingClips ?? []).filter(clip => clip.status !== 'fit');
+                            return (
+                                <li key={take.id}>
+                                    <div className="flex items-center space-x-2">
+                                        <span className="flex-1 min-w-0 truncate text-sm font-semibold text-gray-700 dark:text-gray-200">
+                                            #{takeNumber} · {take.voiceName}{take.style && ` · ${take.style}`}
+                                        </span>
+                                        {take.fromCache && (
+                                            <span className="flex-shrink-0 text-xs font-semibold text-sky-600 dark:text-sky-400" title={t('card.takeCachedTitle')}>{t('cache.badge')}</span>
+                                        )}
+                                        {take.text !== translation.text && (
+                                            <span className="flex-shrink-0 text-xs font-semibold text-amber-600 dark:text-amber-400" title={t('card.takeStaleTitle')}>{t('card.stale')}</span>
+                                        )}
+                                        <button onClick={() => handleDownload(take, takeNumber)} aria-label={t('card.download')} className="bg-gray-500 hover:bg-gray-600 text-white font-semibold py-1 px-2 rounded-lg flex items-center justify-center transition-colors">
+                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                                        </button>
+                                    </div>
+                                    <AudioPlayer id={`${translation.languageCode}:${take.id}`} blob={take.audio.blob} className="mt-1" />
+                                    {flaggedClips.length > 0 && (
+                                        <ul className="mt-1 pl-2 text-xs space-y-0.5">
+                                            {flaggedClips.map(clip => (
+                                                <li key={clip.index} className={clip.status === 'overflow' ? 'text-red-500 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}>
+                                                    {t('card.clip', { time: formatTime(clip.start), number: clip.index + 1, natural: clip.naturalDuration.toFixed(1), slot: clip.slot.toFixed(1) })}
+                                                    {' — '}{clip.status === 'overflow' ? t('card.clipOverflow') : t('card.clipStretched', { ratio: clip.stretchRatio.toFixed(2) })}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
             </div>
+            {exporting && (
+                <ExportDialog
+                    wav={exporting.take.audio.blob}
+                    metadata={{
+                        title: [projectName, languageName(translation.languageCode)].filter(Boolean).join(' – '),
+                        languageName: languageName(translation.languageCode),
+                        projectName,
+                    }}
+                    fileNameValues={{
+                        projekat: projectName.replace(/\.[^.]+$/, ''),
+                        jezik: translation.languageCode,
+                        glas: exporting.take.voiceName.replace(/ \+ /g, '-'),
+                        verzija: String(exporting.takeNumber),
+                        datum: new Date(exporting.take.createdAt).toISOString().slice(0, 10),
+                    }}
+                    onClose={() => setExporting(null)}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,300 @@
+import React, { useEffect, useState } from 'react';
+import { ModelPrice } from '../types';
+import { UsageTotals } from '../services/usageTracking';
+import {
+  clearUsage,
+  formatUsd,
+  getModelPrices,
+  groupUsage,
+  loadUsage,
+  loadUsageSettings,
+  saveUsageSettings,
+  subscribeUsage,
+  toDayKey,
+  UsageSettings,
+} from '../utils/usageStore';
+import { useI18n } from '../i18n/I18nContext';
+
+interface UsagePanelProps {
+  currentProjectId: string | null;
+  onClose: () => void;
+}
+
+const PRICE_FIELDS: (keyof ModelPrice)[] = ['input', 'inputAudio', 'output'];
+
+// An empty field clears the value.
+const parseAmount = (value: string): number | undefined => {
+  const amount = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+// Recorded API usage per project and per day, with the budgets and the price
+// table costs are estimated from.
+const UsagePanel: React.FC<UsagePanelProps> = ({
+  currentProjectId,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const [buckets, setBuckets] = useState(loadUsage);
+  const [settings, setSettings] = useState(loadUsageSettings);
+
+  useEffect(
+    () =>
+      subscribeUsage(() => {
+        setBuckets(loadUsage());
+        setSettings(loadUsageSettings());
+      }),
+    []
+  );
+
+  const updateSettings = (changes: Partial<UsageSettings>) =>
+    saveUsageSettings({ ...settings, ...changes });
+
+  const setPrice = (model: string, field: keyof ModelPrice, value: string) => {
+    const amount = parseAmount(value);
+    // Only the audio price is optional.
+    if (field !== 'inputAudio' && amount === undefined) return;
+    const price: ModelPrice = { ...getModelPrices()[model], [field]: amount };
+    updateSettings({ prices: { ...settings.prices, [model]: price } });
+  };
+
+  const handleClear = () => {
+    if (window.confirm(t('usage.confirmClear'))) clearUsage();
+  };
+
+  const prices = getModelPrices();
+  const today = toDayKey(Date.now());
+  const byDay = [...groupUsage(buckets, (b) => b.day)].sort(([a], [b]) =>
+    b.localeCompare(a)
+  );
+  const byProject = [...groupUsage(buckets, (b) => b.projectId ?? '')];
+  const projectNames = new Map(
+    buckets.map((b) => [b.projectId ?? '', b.projectName])
+  );
+  const projectTotal = byProject.find(([id]) => id === currentProjectId)?.[1];
+  const todayTotal = byDay.find(([day]) => day === today)?.[1];
+
+  const fieldClass =
+    'w-24 bg-gray-900/50 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200';
+
+  const summary = (label: string, totals?: UsageTotals, budget?: number) => (
+    <div className='flex-1 bg-gray-900/50 rounded-lg p-3'>
+      <p className='text-sm text-gray-400'>{label}</p>
+      <p className='text-xl font-semibold text-gray-200'>
+        {formatUsd(totals?.costUsd ?? 0)}
+        {budget !== undefined && (
+          <span
+            className={`ml-2 text-sm font-normal ${
+              (totals?.costUsd ?? 0) > budget
+                ? 'text-red-400'
+                : 'text-gray-400'
+            }`}
+          >
+            {t('usage.ofBudget', { budget: formatUsd(budget) })}
+          </span>
+        )}
+      </p>
+    </div>
+  );
+
+  const totalsTable = (
+    labelHeading: string,
+    rows: [string, string, UsageTotals][]
+  ) => (
+    <table className='w-full text-sm text-gray-300'>
+      <thead>
+        <tr className='text-left text-gray-400'>
+          <th className='font-medium pb-2 pr-2'>{labelHeading}</th>
+          <th className='font-medium pb-2 pr-2 text-right'>
+            {t('usage.calls')}
+          </th>
+          <th className='font-medium pb-2 pr-2 text-right'>
+            {t('usage.inputTokens')}
+          </th>
+          <th className='font-medium pb-2 pr-2 text-right'>
+            {t('usage.outputTokens')}
+          </th>
+          <th className='font-medium pb-2 pr-2 text-right'>
+            {t('usage.audioMinutes')}
+          </th>
+          <th className='font-medium pb-2 text-right'>{t('usage.cost')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([key, label, totals]) => (
+          <tr key={key} className='border-t border-gray-700'>
+            <td className='py-1 pr-2'>{label}</td>
+            <td className='py-1 pr-2 text-right'>{totals.calls}</td>
+            <td className='py-1 pr-2 text-right'>
+              {totals.inputTokens.toLocaleString()}
+            </td>
+            <td className='py-1 pr-2 text-right'>
+              {totals.outputTokens.toLocaleString()}
+            </td>
+            <td className='py-1 pr-2 text-right'>
+              {(totals.audioSeconds / 60).toFixed(1)}
+            </td>
+            <td className='py-1 text-right'>{formatUsd(totals.costUsd)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className='fixed inset-0 z-40 flex items-center justify-center bg-black/60 p-4'>
+      <div className='w-full max-w-3xl max-h-[90vh] flex flex-col bg-[#1E293B] rounded-xl shadow-2xl p-6 space-y-4'>
+        <div className='flex items-center justify-between'>
+          <h2 className='text-xl font-semibold text-gray-200'>
+            {t('usage.heading')}
+          </h2>
+          <button
+            onClick={onClose}
+            className='text-gray-400 hover:text-gray-200 font-semibold'
+          >
+            {t('usage.close')}
+          </button>
+        </div>
+
+        <div className='flex-1 overflow-y-auto space-y-6'>
+          <div className='flex flex-col sm:flex-row gap-3'>
+            {currentProjectId !== null &&
+              summary(
+                t('usage.thisProject'),
+                projectTotal,
+                settings.sessionBudgetUsd
+              )}
+            {summary(t('usage.today'), todayTotal, settings.dailyBudgetUsd)}
+          </div>
+
+          <div className='flex flex-wrap gap-4 items-center text-sm text-gray-400'>
+            <span className='font-medium'>{t('usage.budgets')}</span>
+            <label>
+              {t('usage.sessionBudget')}{' '}
+              <input
+                type='number'
+                min='0'
+                step='0.01'
+                defaultValue={settings.sessionBudgetUsd ?? ''}
+                onBlur={(e) =>
+                  updateSettings({
+                    sessionBudgetUsd: parseAmount(e.target.value),
+                  })
+                }
+                placeholder={t('usage.noLimit')}
+                className={`ml-1 ${fieldClass}`}
+              />
+            </label>
+            <label>
+              {t('usage.dailyBudget')}{' '}
+              <input
+                type='number'
+                min='0'
+                step='0.01'
+                defaultValue={settings.dailyBudgetUsd ?? ''}
+                onBlur={(e) =>
+                  updateSettings({ dailyBudgetUsd: parseAmount(e.target.value) })
+                }
+                placeholder={t('usage.noLimit')}
+                className={`ml-1 ${fieldClass}`}
+              />
+            </label>
+          </div>
+
+          {buckets.length === 0 ? (
+            <p className='text-sm text-gray-500 py-6 text-center'>
+              {t('usage.empty')}
+            </p>
+          ) : (
+            <>
+              <div>
+                <h3 className='text-sm font-medium text-gray-400 mb-2'>
+                  {t('usage.byProject')}
+                </h3>
+                {totalsTable(
+                  t('usage.project'),
+                  byProject.map(([id, totals]) => [
+                    id,
+                    projectNames.get(id) || t('usage.noProject'),
+                    totals,
+                  ])
+                )}
+              </div>
+              <div>
+                <h3 className='text-sm font-medium text-gray-400 mb-2'>
+                  {t('usage.byDay')}
+                </h3>
+                {totalsTable(
+                  t('usage.date'),
+                  byDay.map(([day, totals]) => [day, day, totals])
+                )}
+              </div>
+            </>
+          )}
+
+          <div>
+            <h3 className='text-sm font-medium text-gray-400 mb-2'>
+              {t('usage.prices')}
+            </h3>
+            <table className='w-full text-sm text-gray-300'>
+              <thead>
+                <tr className='text-left text-gray-400'>
+                  <th className='font-medium pb-2 pr-2'>{t('usage.model')}</th>
+                  {PRICE_FIELDS.map((field) => (
+                    <th key={field} className='font-medium pb-2 pr-2'>
+                      {t(`usage.price.${field}`)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(prices).map(([model, price]) => (
+                  <tr key={model} className='border-t border-gray-700'>
+                    <td className='py-1 pr-2'>{model}</td>
+                    {PRICE_FIELDS.map((field) => (
+                      <td key={field} className='py-1 pr-2'>
+                        <input
+                          type='number'
+                          min='0'
+                          step='0.01'
+                          // Remounted when the prices are reset.
+                          key={`${field}:${price[field] ?? ''}`}
+                          defaultValue={price[field] ?? ''}
+                          onBlur={(e) => setPrice(model, field, e.target.value)}
+                          aria-label={`${model} ${t(`usage.price.${field}`)}`}
+                          className={fieldClass}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className='mt-2 text-xs text-gray-500'>
+              {t('usage.estimateNote')}
+            </p>
+          </div>
+        </div>
+
+        <div className='flex flex-wrap gap-2 justify-between'>
+          <button
+            onClick={() => updateSettings({ prices: {} })}
+            disabled={Object.keys(settings.prices).length === 0}
+            className='bg-[#334155] hover:bg-[#475569] text-gray-200 font-semibold py-2 px-3 rounded-lg text-sm disabled:opacity-50'
+          >
+            {t('usage.resetPrices')}
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={buckets.length === 0}
+            className='bg-red-700 hover:bg-red-800 text-white font-semibold py-2 px-3 rounded-lg text-sm disabled:opacity-50'
+          >
+            {t('usage.clear')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
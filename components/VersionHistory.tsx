@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { TextVersion } from '../types';
+import { diffWords } from '../utils/textDiff';
+import { useI18n } from '../i18n/I18nContext';
+
+interface VersionHistoryProps {
+  versions: TextVersion[];
+  // The text currently shown; diffs are computed against it.
+  currentText: string;
+  onRestore: (version: TextVersion) => void;
+}
+
+const DIFF_CLASSES = {
+  equal: 'text-gray-400',
+  insert: 'bg-green-900/60 text-green-200',
+  delete: 'bg-red-900/60 text-red-200 line-through',
+};
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({
+  versions,
+  currentText,
+  onRestore,
+}) => {
+  const { t } = useI18n();
+  const [diffId, setDiffId] = useState<string | null>(null);
+
+  return (
+    <ol className='space-y-2 text-sm'>
+      {[...versions].reverse().map((version, i) => {
+        const number = versions.length - i;
+        const isCurrent = version.text === currentText;
+        return (
+          <li key={version.id} className='bg-gray-900/40 rounded-md p-2'>
+            <div className='flex items-center gap-2'>
+              <span className='flex-1 text-gray-300'>
+                #{number} · {version.label} ·{' '}
+                {new Date(version.createdAt).toLocaleTimeString()}
+                {isCurrent && (
+                  <span className='ml-2 text-xs text-indigo-300'>
+                    {t('versions.current')}
+                  </span>
+                )}
+              </span>
+              {!isCurrent && (
+                <>
+                  <button
+                    onClick={() =>
+                      setDiffId(diffId === version.id ? null : version.id)
+                    }
+                    className='text-indigo-300 hover:text-indigo-200'
+                  >
+                    {diffId === version.id
+                      ? t('versions.hideDiff')
+                      : t('versions.showDiff')}
+                  </button>
+                  <button
+                    onClick={() => onRestore(version)}
+                    className='text-amber-300 hover:text-amber-200'
+                  >
+                    {t('versions.restore')}
+                  </button>
+                </>
+              )}
+            </div>
+            {diffId === version.id && (
+              <p className='mt-2 whitespace-pre-wrap leading-relaxed'>
+                {diffWords(version.text, currentText).map((part, j) => (
+                  <span key={j} className={DIFF_CLASSES[part.op]}>
+                    {part.text}
+                  </span>
+                ))}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default VersionHistory;
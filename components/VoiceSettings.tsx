@@ -0,0 +1,73 @@
+import React from 'react';
+import { STYLE_SUGGESTIONS, VOICES } from '../constants';
+import { useI18n } from '../i18n/I18nContext';
+import Loader from './Loader';
+
+interface VoiceSettingsProps {
+  // Used to keep element ids unique across cards.
+  idPrefix: string;
+  voiceName: string;
+  style: string;
+  onVoiceChange: (voiceName: string) => void;
+  onStyleChange: (style: string) => void;
+  onPreview: () => void;
+  isPreviewing: boolean;
+  disabled?: boolean;
+}
+
+const VoiceSettings: React.FC<VoiceSettingsProps> = ({
+  idPrefix,
+  voiceName,
+  style,
+  onVoiceChange,
+  onStyleChange,
+  onPreview,
+  isPreviewing,
+  disabled = false,
+}) => {
+  const { t } = useI18n();
+  return (
+    <div className='space-y-2 mb-3'>
+      <div className='flex gap-2'>
+        <select
+          id={`${idPrefix}-voice`}
+          value={voiceName}
+          onChange={(e) => onVoiceChange(e.target.value)}
+          disabled={disabled}
+          aria-label={t('voice.label')}
+          className='flex-1 min-w-0 bg-gray-50 dark:bg-gray-700 text-gray-700 dark:text-gray-200 text-sm py-2 px-3 rounded-lg border border-gray-300 dark:border-gray-600'
+        >
+          {VOICES.map((voice) => (
+            <option key={voice.name} value={voice.name}>
+              {voice.name} — {voice.description}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={onPreview}
+          disabled={disabled || isPreviewing}
+          title={t('voice.previewTitle')}
+          className='flex items-center justify-center px-3 py-2 text-sm font-semibold rounded-lg bg-gray-500 hover:bg-gray-600 text-white transition-colors disabled:opacity-60'
+        >
+          {isPreviewing ? <Loader size='4' className='text-white' /> : t('voice.preview')}
+        </button>
+      </div>
+      <input
+        type='text'
+        list={`${idPrefix}-styles`}
+        value={style}
+        onChange={(e) => onStyleChange(e.target.value)}
+        disabled={disabled}
+        placeholder={t('voice.stylePlaceholder')}
+        className='w-full bg-gray-50 dark:bg-gray-700 text-gray-700 dark:text-gray-200 text-sm py-2 px-3 rounded-lg border border-gray-300 dark:border-gray-600 placeholder-gray-400'
+      />
+      <datalist id={`${idPrefix}-styles`}>
+        {STYLE_SUGGESTIONS.map((suggestion) => (
+          <option key={suggestion} value={suggestion} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
+
+export default VoiceSettings;
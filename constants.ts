@@ -1,4 +1,10 @@
-import { Language } from './types';
+import {
+  ExportOptions,
+  Language,
+  LanguagePreset,
+  ModelPrice,
+  Voice,
+} from './types';
 
 export const LANGUAGES: Language[] = [
   { code: 'en', name: 'Engleski', englishName: 'English' },
@@ -33,6 +39,7 @@ export const LANGUAGES: Language[] = [
   { code: 'he', name: 'Hebrejski', englishName: 'Hebrew' },
   { code: 'id', name: 'Indonežanski', englishName: 'Indonesian' },
   { code: 'uk', name: 'Ukrajinski', englishName: 'Ukrainian' },
+  { code: 'sr', name: 'Srpski', englishName: 'Serbian' },
   { code: 'hr', name: 'Hrvatski', englishName: 'Croatian' },
   { code: 'sl', name: 'Slovenački', englishName: 'Slovenian' },
   { code: 'bg', name: 'Bugarski', englishName: 'Bulgarian' },
@@ -49,3 +56,204 @@ export const LANGUAGES: Language[] = [
   { code: 'is', name: 'Islandski', englishName: 'Icelandic' },
   { code: 'mt', name: 'Malteški', englishName: 'Maltese' },
 ];
+
+// Source language option that lets the model detect the spoken language.
+export const AUTO_DETECT_LANGUAGE = 'auto';
+
+export const LANGUAGE_PRESETS: LanguagePreset[] = [
+  {
+    id: 'eu',
+    name: 'EU set',
+    codes: [
+      'en', 'de', 'fr', 'it', 'es', 'pt', 'nl', 'sv', 'da', 'fi', 'pl', 'cs',
+      'hu', 'ro', 'el', 'hr', 'sl', 'bg', 'sk', 'lt', 'lv', 'et', 'ga', 'mt',
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'region',
+    name: 'Region',
+    codes: ['hr', 'sl', 'bg', 'ro', 'hu', 'el', 'de'],
+    builtIn: true,
+  },
+  {
+    id: 'global',
+    name: 'Svetski jezici',
+    codes: ['en', 'es', 'zh', 'ar', 'hi', 'pt', 'ru', 'fr'],
+    builtIn: true,
+  },
+];
+
+// Languages per translation request; longer selections are split into batches.
+export const TRANSLATION_BATCH_SIZE = 8;
+
+// Attempts per language, counting the initial batched request.
+export const TRANSLATION_MAX_ATTEMPTS = 3;
+
+// Long recordings are decoded to 16 kHz mono and transcribed in chunks of
+// about CHUNK_TARGET_SECONDS, cut at the quietest point near the target.
+export const CHUNK_SAMPLE_RATE = 16000;
+export const CHUNK_TARGET_SECONDS = 60;
+export const CHUNK_SEARCH_SECONDS = 10;
+export const CHUNK_OVERLAP_SECONDS = 1.5;
+export const CHUNK_CONCURRENCY = 3;
+// Requests are limited to 20 MB and base64 adds a third, so audio sent in a
+// single inline request has to stay below this.
+export const INLINE_AUDIO_MAX_BYTES = 14 * 1024 * 1024;
+
+// Narration audio is 16-bit mono PCM at this rate.
+export const TTS_SAMPLE_RATE = 24000;
+// Lead time before the first streamed narration chunk plays, so later chunks
+// can be queued behind it without gaps.
+export const STREAM_START_DELAY_SECONDS = 0.1;
+
+export const DEFAULT_VOICE = 'Kore';
+
+export const VOICES: Voice[] = [
+  { name: 'Zephyr', description: 'Svetao' },
+  { name: 'Puck', description: 'Razdragan' },
+  { name: 'Charon', description: 'Informativan' },
+  { name: 'Kore', description: 'Odlučan' },
+  { name: 'Fenrir', description: 'Uzbuđen' },
+  { name: 'Leda', description: 'Mladalački' },
+  { name: 'Orus', description: 'Čvrst' },
+  { name: 'Aoede', description: 'Prozračan' },
+  { name: 'Callirrhoe', description: 'Opušten' },
+  { name: 'Autonoe', description: 'Vedar' },
+  { name: 'Enceladus', description: 'Dahtav' },
+  { name: 'Iapetus', description: 'Jasan' },
+  { name: 'Umbriel', description: 'Lagodan' },
+  { name: 'Algieba', description: 'Gladak' },
+  { name: 'Despina', description: 'Tečan' },
+  { name: 'Erinome', description: 'Razgovetan' },
+  { name: 'Algenib', description: 'Hrapav' },
+  { name: 'Rasalgethi', description: 'Poučan' },
+  { name: 'Laomedeia', description: 'Živahan' },
+  { name: 'Achernar', description: 'Mek' },
+  { name: 'Alnilam', description: 'Postojan' },
+  { name: 'Schedar', description: 'Ujednačen' },
+  { name: 'Gacrux', description: 'Zreo' },
+  { name: 'Pulcherrima', description: 'Direktan' },
+  { name: 'Achird', description: 'Prijateljski' },
+  { name: 'Zubenelgenubi', description: 'Ležeran' },
+  { name: 'Vindemiatrix', description: 'Nežan' },
+  { name: 'Sadachbia', description: 'Poletan' },
+  { name: 'Sadaltager', description: 'Upućen' },
+  { name: 'Sulafat', description: 'Topao' },
+];
+
+// Voices handed out to diarized speakers, in order, before any are customized.
+export const SPEAKER_VOICE_ROTATION = ['Kore', 'Puck', 'Charon', 'Leda', 'Orus', 'Aoede'];
+
+// The TTS model accepts at most this many speakers per multi-speaker request.
+export const MAX_TTS_SPEAKERS = 2;
+
+// Silence inserted between speaker turns narrated in separate requests.
+export const SPEAKER_TURN_PAUSE_SECONDS = 0.3;
+
+// Suggestions for the narration style field; any free text is accepted.
+export const STYLE_SUGGESTIONS = [
+  'smireno',
+  'kao voditelj vesti',
+  'sporije',
+  'veselo',
+  'ozbiljno',
+  'šapatom',
+];
+
+// Number of characters of the translation used for a voice preview.
+export const VOICE_PREVIEW_LENGTH = 120;
+
+// Delay after the last change before the current project is saved locally.
+export const PROJECT_AUTOSAVE_DELAY_MS = 1000;
+
+export const EXPORT_SAMPLE_RATES = [TTS_SAMPLE_RATE, 44100, 48000];
+export const MP3_BITRATES = [96, 128, 192, 256];
+
+// Placeholders: {projekat}, {jezik}, {glas}, {verzija}, {datum}.
+export const DEFAULT_FILE_NAME_TEMPLATE = 'prevod_{jezik}_{glas}_{verzija}';
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'wav',
+  sampleRate: TTS_SAMPLE_RATE,
+  stereo: false,
+  bitrateKbps: 128,
+  fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE,
+};
+
+// Dubbing: clips longer than their slot are sped up by at most this factor;
+// anything longer still is flagged as overflowing into the next segment.
+export const DUBBING_MAX_STRETCH = 1.3;
+export const DUBBING_CONCURRENCY = 3;
+// Level of the original audio under narration in the ducked mix, and the
+// fade time into and out of it.
+export const DUBBING_DUCK_GAIN = 0.2;
+export const DUBBING_DUCK_FADE_SECONDS = 0.15;
+
+// Live transcription: the recorder hands over audio every LIVE_TIMESLICE_MS,
+// and the audio since the last committed segment is re-transcribed. Once that
+// window reaches LIVE_WINDOW_SECONDS, all but its last segment are committed.
+export const LIVE_TIMESLICE_MS = 3000;
+export const LIVE_WINDOW_SECONDS = 20;
+
+// Preprocessing works on mono audio at the transcription chunk rate. Levels
+// are in dBFS, measured over PREPROCESS_FRAME_SECONDS frames.
+export const PREPROCESS_FRAME_SECONDS = 0.02;
+export const SILENCE_THRESHOLD_DB = -45;
+export const NORMALIZE_TARGET_DB = -20;
+export const NORMALIZE_PEAK_LIMIT = 0.95;
+// The gate and the voice-activity detector work relative to the recording's
+// noise floor, so they adapt to quiet and noisy rooms alike.
+export const NOISE_GATE_MARGIN_DB = 6;
+export const VAD_MARGIN_DB = 10;
+// Pauses longer than this are shortened to it.
+export const MAX_PAUSE_SECONDS = 0.8;
+export const WAVEFORM_BUCKETS = 600;
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+// Players draw a waveform for files up to this size; larger ones (long
+// source recordings) are only decoded when played.
+export const PLAYER_WAVEFORM_MAX_BYTES = 20 * 1024 * 1024;
+export const PLAYER_WAVEFORM_BUCKETS = 200;
+
+// Translation QA: back-translation similarity below these values is shown as
+// a warning or an error; length ratios outside the range are outliers.
+export const QA_SIMILARITY_WARNING = 0.55;
+export const QA_SIMILARITY_ERROR = 0.35;
+export const QA_LENGTH_RATIO_MIN = 0.7;
+export const QA_LENGTH_RATIO_MAX = 1.4;
+// Shorter segments vary too much in length to judge.
+export const QA_MIN_SEGMENT_CHARS = 20;
+
+// Transient API failures (rate limits, 5xx, dropped connections) are retried
+// with exponential backoff: up to RETRY_MAX_ATTEMPTS tries, waiting a random
+// time up to RETRY_BASE_DELAY_MS · 2^n, capped at RETRY_MAX_DELAY_MS.
+export const RETRY_MAX_ATTEMPTS = 4;
+export const RETRY_BASE_DELAY_MS = 1000;
+export const RETRY_MAX_DELAY_MS = 16000;
+
+// Local cache of provider results (see services/resultCache.ts). Least
+// recently used entries are evicted past either limit.
+export const RESULT_CACHE_MAX_BYTES = 200 * 1024 * 1024;
+export const RESULT_CACHE_MAX_ENTRIES = 1000;
+
+// Command-line batch processor (cli/batch.ts): recordings processed at once
+// unless --concurrency says otherwise, and the default output directory.
+export const BATCH_CONCURRENCY = 2;
+export const BATCH_OUTPUT_DIR = 'batch-output';
+
+// Usage tracking: default API prices per model (editable in the usage panel;
+// unlisted models, like the mock provider's, count as free). Gemini bills
+// each second of audio as AUDIO_TOKENS_PER_SECOND tokens.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { input: 0.3, inputAudio: 1, output: 2.5 },
+  'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 },
+};
+export const AUDIO_TOKENS_PER_SECOND = 32;
+// Rough rates behind the cost estimates shown before expensive operations.
+export const ESTIMATE_PROMPT_TOKENS = 300;
+export const ESTIMATE_CHARS_PER_TOKEN = 4;
+export const ESTIMATE_TRANSCRIPT_TOKENS_PER_SECOND = 8;
+export const ESTIMATE_SPEECH_CHARS_PER_SECOND = 15;
+// Daily usage totals older than this are dropped.
+export const USAGE_HISTORY_DAYS = 90;
@@ -0,0 +1,60 @@
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import {
+  DEFAULT_UI_LOCALE,
+  Translate,
+  UiLocale,
+  createTranslator,
+  defaultTranslate,
+  loadUiLocale,
+  localizedLanguageName,
+  saveUiLocale,
+} from '.';
+
+interface I18nContextValue {
+  locale: UiLocale;
+  setLocale: (locale: UiLocale) => void;
+  t: Translate;
+  // Display name of a language code in the UI language.
+  languageName: (code: string) => string;
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_UI_LOCALE,
+  setLocale: () => {},
+  t: defaultTranslate,
+  languageName: (code) => localizedLanguageName(code, DEFAULT_UI_LOCALE),
+});
+
+// Holds the UI language for the whole app and remembers the user's choice.
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [locale, setLocaleState] = useState<UiLocale>(loadUiLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(
+    () => ({
+      locale,
+      setLocale: (next) => {
+        setLocaleState(next);
+        saveUiLocale(next);
+      },
+      t: createTranslator(locale),
+      languageName: (code) => localizedLanguageName(code, locale),
+    }),
+    [locale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,296 @@
+import { MessageKey } from './srLatn';
+
+// English UI messages.
+export const en: Record<MessageKey, string> = {
+  'app.title': 'AI Audio Translator & Narrator',
+  'app.subtitle':
+    'Record or upload audio and get transcripts, translations and AI-generated voice narration.',
+  'app.demoMode': 'Demo mode: using the local offline test service.',
+  'app.glossary': 'Glossary',
+  'app.projects': 'Projects',
+  'app.uiLanguage': 'Interface language',
+
+  'bundle.export': 'Export all',
+  'bundle.exporting': 'Packing...',
+  'bundle.import': 'Import bundle',
+  'bundle.invalid': 'The file is not a session bundle exported from this app.',
+  'bundle.missingEntry':
+    'The file is not a session bundle exported from this app. {name} is missing.',
+  'bundle.invalidJson':
+    'The file is not a session bundle exported from this app. {name} is not valid JSON.',
+  'bundle.newerVersion':
+    'The bundle was exported from a newer version of the app and cannot be imported.',
+
+  'input.heading': '1. Provide Audio',
+  'input.startRecording': 'Start Recording',
+  'input.stopRecording': 'Stop Recording',
+  'input.or': 'OR',
+  'input.upload': 'Upload File',
+  'input.selectedFile': 'Selected file:',
+  'input.preprocessing': 'Audio processing before upload',
+  'input.preprocessingApplied': '(applied)',
+  'input.recording': 'Recording...',
+  'input.liveMode': 'Live transcription while recording',
+  'input.liveTranslation': 'Live translation',
+  'input.noLiveTranslation': 'No live translation',
+  'input.liveTranslationOption': 'Live translation: {language}',
+  'input.sourceLanguage': 'Recording language',
+  'input.autoDetect': 'Detect automatically',
+  'input.transcribe': 'Transcribe Audio',
+  'input.chunks': 'Recording parts: {done} / {total}',
+  'input.cancelTranscription': 'Cancel transcription',
+  'input.importText': 'Import Text',
+
+  'live.transcript': 'Provisional transcript',
+  'live.replacing': 'being replaced by the final transcription...',
+  'live.waiting': 'Waiting for the first part of the recording...',
+  'live.translation': 'Live translation ({language})',
+  'live.failed': 'Live transcription failed.',
+
+  'error.heading': 'Error:',
+  'error.unknown': 'An unknown error occurred.',
+  'error.microphone':
+    'Could not access the microphone. Check the browser permissions.',
+
+  'transcript.heading': 'Original Transcript ({language})',
+  'transcript.confidence': 'Language detected automatically, confidence {percent}%',
+  'transcript.edit': 'Edit transcript',
+  'transcript.cachedTitle':
+    'The transcript was served from the cache; send the recording again',
+  'transcript.retranslate': 'Translate again from the edited transcript',
+
+  'cache.refresh': 'Cached · Refresh',
+  'cache.badge': 'cached',
+
+  'script.label': 'Script',
+  'script.latin': 'Latin',
+  'script.cyrillic': 'Cyrillic',
+
+  'history.button': 'History ({count})',
+  'history.transcription': 'Transcription',
+  'history.translation': 'Translation',
+  'history.edit': 'Edit',
+  'history.restored': 'Restored version',
+  'history.textImport': 'Imported text',
+
+  'translate.heading': '3. Choose Languages to Translate',
+  'translate.button': 'Translate ({count})',
+  'translate.cancel': 'Cancel translation',
+  'translate.choose': 'Choose languages',
+  'translate.selectedCount': 'Languages selected: {count}',
+  'translate.selectAll': 'Select all',
+  'translate.deselectAll': 'Clear all',
+  'translate.close': 'Close',
+  'translate.presetName': 'Set name (e.g. Client A)',
+  'translate.savePreset': 'Save set',
+  'translate.deletePreset': 'Delete set {name}',
+
+  'results.heading': '4. Translations and Voice Narration',
+  'results.failed': 'No translation was received for these languages:',
+  'results.retry': 'Try again: {language}',
+
+  'card.cachedTitle': 'The translation was served from the cache; request it again',
+  'card.refreshing': 'Refreshing...',
+  'card.edit': 'Edit translation',
+  'card.checkQuality': 'Check quality',
+  'card.recheckQuality': 'Check quality again',
+  'card.checkingQuality': 'Checking...',
+  'card.backTranslation': 'Back-translation',
+  'card.glossaryViolations': 'Glossary deviations ({count})',
+  'card.segment': 'Segment {number}',
+  'card.glossaryKeep': '“{term}” should stay untranslated',
+  'card.glossaryExpected': '“{term}” should be translated as “{expected}”',
+  'card.speakerVoices': 'Speaker voices',
+  'card.bypassCache': 'Generate anew, bypassing the cache',
+  'card.generate': 'Generate voice narration',
+  'card.generateNew': 'Generate a new version',
+  'card.generateStale': 'Generate again (text changed)',
+  'card.mixOriginal': 'Mix with the original (ducked)',
+  'card.generateDubbing': 'Generate dubbing (time-aligned)',
+  'card.dubbingProgress': 'Segment {done}/{total}',
+  'card.dubbingTake': 'Dubbing · {voices}',
+  'card.cancelNarration': 'Cancel narration',
+  'card.cancelDubbing': 'Cancel dubbing',
+  'card.takeCachedTitle': 'The audio was served from the cache',
+  'card.stale': 'outdated',
+  'card.takeStaleTitle':
+    'The translation was edited after this narration was generated',
+  'card.download': 'Download',
+  'card.clip': '{time} · segment {number}: {natural} s in {slot} s',
+  'card.clipOverflow': 'runs into the next segment',
+  'card.clipStretched': 'sped up ×{ratio}',
+  'card.speechFailed': 'Unknown error while generating audio.',
+  'card.dubbingFailed': 'Unknown error while generating dubbing.',
+  'card.qualityFailed': 'The quality check failed.',
+
+  'quality.staleTitle': 'The translation was edited after the check',
+  'quality.similarity': 'Similarity {percent}%',
+  'quality.similarityTitle': 'Similarity of the back-translation to the original',
+  'quality.length': 'Length ×{ratio}',
+  'quality.lengthTitle': 'Length of the translation relative to the original',
+  'quality.lengthOutliers': '{count} off',
+  'quality.untranslated': 'Untranslated: {segments}',
+  'quality.wrongScript': 'Wrong script',
+  'quality.wrongLanguage': 'Wrong language ({language})',
+  'quality.noBackTranslation': 'No back-translation was received.',
+
+  'service.transcription': 'Transcription failed.',
+  'service.translation': 'Translation failed.',
+  'service.speech': 'Speech generation failed.',
+  'service.auth':
+    'The API key is missing, invalid or has no access to the model. Check the API_KEY setting.',
+  'service.quota':
+    'The API quota is used up. Wait for it to reset or check billing in Google AI Studio.',
+  'service.rateLimit':
+    'Too many requests in a short time. Wait a minute and try again.',
+  'service.unsupportedAudio':
+    'The recording format is not supported. Try a WAV, MP3 or WebM file, or apply audio processing before upload.',
+  'service.invalidRequest':
+    'The service rejected the request. Check the input; very long texts and recordings sometimes exceed the limits.',
+  'service.network':
+    'Cannot reach the service. Check your internet connection and try again.',
+  'service.server':
+    'The service is overloaded or unavailable. Try again in a few minutes.',
+  'service.invalidResponse':
+    'The model returned an unexpected response. Try again.',
+  'service.unknown': 'See the console for details.',
+
+  'textImport.placeholder': 'Paste text or subtitles (SRT, VTT)...',
+  'textImport.chooseFile': 'Choose .txt/.srt/.vtt',
+  'textImport.language': 'Text language',
+  'textImport.use': 'Use text',
+  'textImport.hint':
+    'Subtitles keep their timing through translation and narration.',
+  'textImport.pastedName': 'Pasted text',
+  'textImport.readFailed': 'The file could not be read.',
+  'textImport.noCues': 'The subtitles contain no valid cues.',
+  'textImport.empty': 'The text is empty.',
+
+  'usage.button': 'Usage',
+  'usage.heading': 'API usage',
+  'usage.close': 'Close',
+  'usage.thisProject': 'This project',
+  'usage.today': 'Today',
+  'usage.ofBudget': 'of {budget}',
+  'usage.budgets': 'Budgets (USD):',
+  'usage.sessionBudget': 'per project',
+  'usage.dailyBudget': 'per day',
+  'usage.noLimit': 'no limit',
+  'usage.empty': 'No API calls recorded yet.',
+  'usage.byProject': 'By project',
+  'usage.byDay': 'By day',
+  'usage.project': 'Project',
+  'usage.noProject': 'No project',
+  'usage.date': 'Date',
+  'usage.calls': 'Calls',
+  'usage.inputTokens': 'Input tokens',
+  'usage.outputTokens': 'Output tokens',
+  'usage.audioMinutes': 'Audio (min)',
+  'usage.cost': 'Cost',
+  'usage.prices': 'Prices (USD per million tokens)',
+  'usage.model': 'Model',
+  'usage.price.input': 'Input',
+  'usage.price.inputAudio': 'Input (audio)',
+  'usage.price.output': 'Output',
+  'usage.estimateNote':
+    'Costs are estimated from the tokens the API reports and this price table. Cached results are free.',
+  'usage.resetPrices': 'Restore default prices',
+  'usage.clear': 'Clear usage',
+  'usage.confirmClear': 'Delete all recorded usage?',
+  'usage.sessionBudgetWarning':
+    'This operation is estimated at {estimate}, and the project has already used {spent} of its {budget} budget. Continue?',
+  'usage.dailyBudgetWarning':
+    'This operation is estimated at {estimate}, and {spent} of the {budget} daily budget has already been used today. Continue?',
+
+  'voice.label': 'Voice',
+  'voice.preview': 'Sample',
+  'voice.previewTitle': 'Listen to a short sample of this voice',
+  'voice.stylePlaceholder': 'Style (e.g. calm, like a news anchor, slower)',
+
+  'speakers.heading': 'Speakers',
+  'speakers.nameLabel': 'Name for {id}',
+
+  'subtitles.label': 'Subtitles:',
+
+  'editor.cancel': 'Cancel',
+  'editor.save': 'Save changes',
+
+  'versions.current': '(current)',
+  'versions.showDiff': 'Changes',
+  'versions.hideDiff': 'Hide changes',
+  'versions.restore': 'Restore',
+
+  'player.play': 'Play',
+  'player.pause': 'Pause',
+  'player.stop': 'Stop',
+  'player.speed': 'Playback speed',
+  'player.volume': 'Volume',
+  'player.decodeFailed':
+    'The audio cannot be played; the file is damaged or its format is not supported.',
+
+  'audio.invalidWav': 'Invalid WAV file.',
+
+  'preprocess.start': 'Start',
+  'preprocess.end': 'End',
+  'preprocess.autoTrim': 'Trim silence automatically',
+  'preprocess.normalize': 'Even out volume',
+  'preprocess.noiseGate': 'Noise gate',
+  'preprocess.removePauses': 'Shorten long pauses',
+  'preprocess.apply': 'Apply processing',
+  'preprocess.revert': 'Restore original',
+  'preprocess.timingNote':
+    'Shortening pauses shifts transcript timings away from the original recording.',
+  'preprocess.unsupported': 'This format cannot be processed in the browser.',
+  'preprocess.failed': 'Audio processing failed.',
+
+  'projects.heading': 'Projects',
+  'projects.close': 'Close',
+  'projects.new': 'New project',
+  'projects.search': 'Search by name or language',
+  'projects.empty': 'No saved projects.',
+  'projects.rename': 'Rename',
+  'projects.delete': 'Delete',
+  'projects.confirmDelete': 'Delete project “{name}”?',
+  'projects.storage': 'Storage used',
+  'projects.listFailed': 'Saved projects could not be loaded.',
+  'projects.renameFailed': 'The project could not be renamed.',
+  'projects.deleteFailed': 'The project could not be deleted.',
+  'projects.quota':
+    'There is not enough space to save the project. Delete old projects and try again.',
+  'projects.saveFailed':
+    'The project could not be saved. Check the console for details.',
+  'projects.notFound': 'Project not found.',
+
+  'glossary.heading': 'Glossary',
+  'glossary.close': 'Close',
+  'glossary.language': 'Target language',
+  'glossary.search': 'Search terms...',
+  'glossary.empty':
+    'The glossary is empty. Add a term or import a CSV/TBX file.',
+  'glossary.noMatches': 'No terms match the search.',
+  'glossary.term': 'Term ({language})',
+  'glossary.doNotTranslate': 'Do not translate',
+  'glossary.delete': 'Delete',
+  'glossary.add': 'Add term',
+  'glossary.import': 'Import CSV/TBX',
+  'glossary.exportCsv': 'Export CSV',
+  'glossary.exportTbx': 'Export TBX',
+  'glossary.imported': 'Terms imported: {count}.',
+  'glossary.importFailed': 'The glossary could not be imported.',
+  'glossary.csvNoTerm': 'A CSV glossary needs a "term" column.',
+  'glossary.tbxInvalid': 'The TBX file is not valid XML.',
+
+  'export.heading': 'Export narration',
+  'export.format': 'Format',
+  'export.wav': 'WAV (uncompressed)',
+  'export.mp3': 'MP3',
+  'export.sampleRate': 'Sample rate',
+  'export.bitrate': 'Bitrate',
+  'export.stereo': 'Stereo',
+  'export.title': 'Title (WAV metadata)',
+  'export.fileName': 'File name',
+  'export.placeholders': 'Placeholders:',
+  'export.cancel': 'Cancel',
+  'export.download': 'Download',
+  'export.failed': 'The export failed. Check the console for details.',
+};
@@ -0,0 +1,97 @@
+import { MessageKey, srLatn } from './srLatn';
+import { srCyrl } from './srCyrl';
+import { en } from './en';
+import { findLanguage } from '../utils/languageUtils';
+
+export type { MessageKey };
+
+export type UiLocale = 'sr-Latn' | 'sr-Cyrl' | 'en';
+
+// Labels are written in the locale itself so everyone can find their own.
+export const UI_LOCALES: { code: UiLocale; label: string }[] = [
+  { code: 'sr-Latn', label: 'Srpski (latinica)' },
+  { code: 'sr-Cyrl', label: 'Српски (ћирилица)' },
+  { code: 'en', label: 'English' },
+];
+
+export const DEFAULT_UI_LOCALE: UiLocale = 'sr-Latn';
+
+const CATALOGS: Record<UiLocale, Record<MessageKey, string>> = {
+  'sr-Latn': srLatn,
+  'sr-Cyrl': srCyrl,
+  en,
+};
+
+const STORAGE_KEY = 'uiLocale';
+
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// Looks up `key` and fills in its `{name}` placeholders from `params`.
+export const createTranslator =
+  (locale: UiLocale): Translate =>
+  (key, params = {}) =>
+    CATALOGS[locale][key].replace(/\{(\w+)\}/g, (placeholder, name) =>
+      name in params ? String(params[name]) : placeholder
+    );
+
+// For text produced outside the React tree, such as error messages that end
+// up in the console.
+export const defaultTranslate = createTranslator(DEFAULT_UI_LOCALE);
+
+const isUiLocale = (value: string | null): value is UiLocale =>
+  value !== null && value in CATALOGS;
+
+// The saved choice, or a guess from the browser language on first visit.
+export const loadUiLocale = (): UiLocale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isUiLocale(stored)) return stored;
+  } catch (error) {
+    console.error('Error loading UI language:', error);
+  }
+  return /^(sr|hr|bs|sh|cnr)\b/i.test(navigator.language ?? '')
+    ? DEFAULT_UI_LOCALE
+    : 'en';
+};
+
+export const saveUiLocale = (locale: UiLocale) => {
+  localStorage.setItem(STORAGE_KEY, locale);
+};
+
+const displayNames = new Map<UiLocale, Intl.DisplayNames | null>();
+
+const displayNamesFor = (locale: UiLocale) => {
+  if (!displayNames.has(locale)) {
+    try {
+      displayNames.set(
+        locale,
+        new Intl.DisplayNames([locale], { type: 'language' })
+      );
+    } catch {
+      displayNames.set(locale, null);
+    }
+  }
+  return displayNames.get(locale) ?? null;
+};
+
+// Name of a language in the UI language, from the browser's locale data.
+// Falls back to the names in LANGUAGES where that data is missing.
+export const localizedLanguageName = (
+  code: string,
+  locale: UiLocale
+): string => {
+  let name: string | undefined;
+  try {
+    name = displayNamesFor(locale)?.of(code);
+  } catch {
+    // Not a valid language tag.
+  }
+  if (name && name !== code) {
+    // Serbian language names are lowercase in running text.
+    return name.charAt(0).toLocaleUpperCase(locale) + name.slice(1);
+  }
+  const language = findLanguage(code);
+  if (!language) return code;
+  return locale === 'en' ? language.englishName : language.name;
+};
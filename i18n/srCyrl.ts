@@ -0,0 +1,297 @@
+import { MessageKey } from './srLatn';
+
+// Serbian (Cyrillic) UI messages.
+export const srCyrl: Record<MessageKey, string> = {
+  'app.title': 'AI Аудио преводилац & наратор',
+  'app.subtitle':
+    'Снимите или отпремите аудио, добијте транскрипције, преводе и AI-генерисане гласовне нарације.',
+  'app.demoMode':
+    'Демо режим: користи се локални пробни сервис без приступа мрежи.',
+  'app.glossary': 'Глосар',
+  'app.projects': 'Пројекти',
+  'app.uiLanguage': 'Језик интерфејса',
+
+  'bundle.export': 'Извези све',
+  'bundle.exporting': 'Паковање...',
+  'bundle.import': 'Увези пакет',
+  'bundle.invalid': 'Фајл није пакет сесије извезен из ове апликације.',
+  'bundle.missingEntry':
+    'Фајл није пакет сесије извезен из ове апликације. Недостаје {name}.',
+  'bundle.invalidJson':
+    'Фајл није пакет сесије извезен из ове апликације. {name} није исправан JSON.',
+  'bundle.newerVersion':
+    'Пакет је извезен из новије верзије апликације и не може се увести.',
+
+  'input.heading': '1. Обезбедите Аудио',
+  'input.startRecording': 'Започни Снимање',
+  'input.stopRecording': 'Заустави Снимање',
+  'input.or': 'ИЛИ',
+  'input.upload': 'Отпреми Фајл',
+  'input.selectedFile': 'Изабран фајл:',
+  'input.preprocessing': 'Обрада звука пре слања',
+  'input.preprocessingApplied': '(примењена)',
+  'input.recording': 'Снимање у току...',
+  'input.liveMode': 'Транскрипција уживо током снимања',
+  'input.liveTranslation': 'Превод уживо',
+  'input.noLiveTranslation': 'Без превода уживо',
+  'input.liveTranslationOption': 'Превод уживо: {language}',
+  'input.sourceLanguage': 'Језик снимка',
+  'input.autoDetect': 'Аутоматско препознавање',
+  'input.transcribe': 'Преведи Аудио',
+  'input.chunks': 'Делови снимка: {done} / {total}',
+  'input.cancelTranscription': 'Откажи транскрипцију',
+  'input.importText': 'Увези Текст',
+
+  'live.transcript': 'Привремени транскрипт',
+  'live.replacing': 'замењује се коначном транскрипцијом...',
+  'live.waiting': 'Чека се први део снимка...',
+  'live.translation': 'Превод уживо ({language})',
+  'live.failed': 'Транскрипција уживо није успела.',
+
+  'error.heading': 'Грешка:',
+  'error.unknown': 'Дошло је до непознате грешке.',
+  'error.microphone':
+    'Није могуће приступити микрофону. Проверите дозволе у претраживачу.',
+
+  'transcript.heading': 'Оригинални Транскрипт ({language})',
+  'transcript.confidence':
+    'Језик препознат аутоматски, поузданост {percent}%',
+  'transcript.edit': 'Измени транскрипт',
+  'transcript.cachedTitle':
+    'Транскрипт је преузет из кеша; пошаљи снимак поново',
+  'transcript.retranslate': 'Поново преведи из измењеног транскрипта',
+
+  'cache.refresh': 'Из кеша · Освежи',
+  'cache.badge': 'из кеша',
+
+  'script.label': 'Писмо',
+  'script.latin': 'Латиница',
+  'script.cyrillic': 'Ћирилица',
+
+  'history.button': 'Историја ({count})',
+  'history.transcription': 'Транскрипција',
+  'history.translation': 'Превод',
+  'history.edit': 'Измена',
+  'history.restored': 'Враћена верзија',
+  'history.textImport': 'Увезен текст',
+
+  'translate.heading': '3. Изаберите Језике за Превод',
+  'translate.button': 'Преведи ({count})',
+  'translate.cancel': 'Откажи превођење',
+  'translate.choose': 'Изаберите језике',
+  'translate.selectedCount': 'Изабрано језика: {count}',
+  'translate.selectAll': 'Изабери све',
+  'translate.deselectAll': 'Поништи све',
+  'translate.close': 'Затвори',
+  'translate.presetName': 'Назив сета (нпр. Клијент А)',
+  'translate.savePreset': 'Сачувај сет',
+  'translate.deletePreset': 'Обриши сет {name}',
+
+  'results.heading': '4. Преводи и Гласовна Нарација',
+  'results.failed': 'Превод није добијен за следеће језике:',
+  'results.retry': 'Покушај поново: {language}',
+
+  'card.cachedTitle': 'Превод је преузет из кеша; затражи га поново',
+  'card.refreshing': 'Освежавање...',
+  'card.edit': 'Измени превод',
+  'card.checkQuality': 'Провери квалитет',
+  'card.recheckQuality': 'Понови проверу квалитета',
+  'card.checkingQuality': 'Провера у току...',
+  'card.backTranslation': 'Повратни превод',
+  'card.glossaryViolations': 'Одступања од глосара ({count})',
+  'card.segment': 'Сегмент {number}',
+  'card.glossaryKeep': '„{term}” треба да остане непреведено',
+  'card.glossaryExpected': '„{term}” треба превести као „{expected}”',
+  'card.speakerVoices': 'Гласови говорника',
+  'card.bypassCache': 'Генериши изнова, без кеша',
+  'card.generate': 'Генериши гласовну нарацију',
+  'card.generateNew': 'Генериши нову верзију',
+  'card.generateStale': 'Генериши поново (текст измењен)',
+  'card.mixOriginal': 'Помешај са оригиналом (утишано)',
+  'card.generateDubbing': 'Генериши дубинг (синхронизовано)',
+  'card.dubbingProgress': 'Сегмент {done}/{total}',
+  'card.dubbingTake': 'Дубинг · {voices}',
+  'card.cancelNarration': 'Откажи нарацију',
+  'card.cancelDubbing': 'Откажи дубинг',
+  'card.takeCachedTitle': 'Звук је преузет из кеша',
+  'card.stale': 'застарело',
+  'card.takeStaleTitle': 'Превод је измењен након генерисања ове нарације',
+  'card.download': 'Преузми',
+  'card.clip': '{time} · сегмент {number}: {natural} с у {slot} с',
+  'card.clipOverflow': 'прелива се у следећи сегмент',
+  'card.clipStretched': 'убрзано ×{ratio}',
+  'card.speechFailed': 'Непозната грешка при генерисању звука.',
+  'card.dubbingFailed': 'Непозната грешка при генерисању дубинга.',
+  'card.qualityFailed': 'Провера квалитета није успела.',
+
+  'quality.staleTitle': 'Превод је измењен након провере',
+  'quality.similarity': 'Сличност {percent}%',
+  'quality.similarityTitle': 'Сличност повратног превода са оригиналом',
+  'quality.length': 'Дужина ×{ratio}',
+  'quality.lengthTitle': 'Однос дужине превода и оригинала',
+  'quality.lengthOutliers': '{count} одступа',
+  'quality.untranslated': 'Непреведено: {segments}',
+  'quality.wrongScript': 'Погрешно писмо',
+  'quality.wrongLanguage': 'Погрешан језик ({language})',
+  'quality.noBackTranslation': 'Повратни превод није примљен.',
+
+  'service.transcription': 'Транскрипција није успела.',
+  'service.translation': 'Превођење није успело.',
+  'service.speech': 'Генерисање гласа није успело.',
+  'service.auth':
+    'API кључ недостаје, није исправан или нема приступ моделу. Проверите подешавање API_KEY.',
+  'service.quota':
+    'Квота за API је потрошена. Сачекајте да се обнови или проверите наплату у Google AI Studio.',
+  'service.rateLimit':
+    'Послато је превише захтева у кратком року. Сачекајте минут па покушајте поново.',
+  'service.unsupportedAudio':
+    'Формат снимка није подржан. Покушајте са WAV, MP3 или WebM фајлом, или примените обраду звука пре слања.',
+  'service.invalidRequest':
+    'Сервис је одбио захтев. Проверите улазне податке; веома дуги текстови и снимци понекад прелазе ограничења.',
+  'service.network':
+    'Нема везе са сервисом. Проверите интернет везу и покушајте поново.',
+  'service.server':
+    'Сервис је тренутно преоптерећен или недоступан. Покушајте поново за неколико минута.',
+  'service.invalidResponse':
+    'Модел је вратио неочекиван одговор. Покушајте поново.',
+  'service.unknown': 'Проверите конзолу за детаље.',
+
+  'textImport.placeholder': 'Налепите текст или титлове (SRT, VTT)...',
+  'textImport.chooseFile': 'Изабери .txt/.srt/.vtt',
+  'textImport.language': 'Језик текста',
+  'textImport.use': 'Користи текст',
+  'textImport.hint':
+    'Титлови задржавају временске ознаке кроз превод и нарацију.',
+  'textImport.pastedName': 'Унети текст',
+  'textImport.readFailed': 'Фајл није могуће прочитати.',
+  'textImport.noCues': 'Титлови не садрже ниједан исправан унос.',
+  'textImport.empty': 'Текст је празан.',
+
+  'usage.button': 'Потрошња',
+  'usage.heading': 'Потрошња API-ја',
+  'usage.close': 'Затвори',
+  'usage.thisProject': 'Овај пројекат',
+  'usage.today': 'Данас',
+  'usage.ofBudget': 'од {budget}',
+  'usage.budgets': 'Буџети (USD):',
+  'usage.sessionBudget': 'по пројекту',
+  'usage.dailyBudget': 'дневно',
+  'usage.noLimit': 'без лимита',
+  'usage.empty': 'Још нема забележених позива API-ја.',
+  'usage.byProject': 'По пројектима',
+  'usage.byDay': 'По данима',
+  'usage.project': 'Пројекат',
+  'usage.noProject': 'Без пројекта',
+  'usage.date': 'Датум',
+  'usage.calls': 'Позиви',
+  'usage.inputTokens': 'Улазни токени',
+  'usage.outputTokens': 'Излазни токени',
+  'usage.audioMinutes': 'Аудио (мин)',
+  'usage.cost': 'Трошак',
+  'usage.prices': 'Цене (USD за милион токена)',
+  'usage.model': 'Модел',
+  'usage.price.input': 'Улаз',
+  'usage.price.inputAudio': 'Улаз (аудио)',
+  'usage.price.output': 'Излаз',
+  'usage.estimateNote':
+    'Трошкови су процена на основу токена које пријављује API и ове табеле цена. Резултати из кеша се не наплаћују.',
+  'usage.resetPrices': 'Врати подразумеване цене',
+  'usage.clear': 'Обриши евиденцију',
+  'usage.confirmClear': 'Обрисати сву забележену потрошњу?',
+  'usage.sessionBudgetWarning':
+    'Процењени трошак ове операције је {estimate}, а пројекат је већ потрошио {spent} од буџета {budget}. Наставити?',
+  'usage.dailyBudgetWarning':
+    'Процењени трошак ове операције је {estimate}, а данас је већ потрошено {spent} од дневног буџета {budget}. Наставити?',
+
+  'voice.label': 'Глас',
+  'voice.preview': 'Узорак',
+  'voice.previewTitle': 'Преслушај кратак узорак овог гласа',
+  'voice.stylePlaceholder': 'Стил (нпр. смирено, као водитељ вести, спорије)',
+
+  'speakers.heading': 'Говорници',
+  'speakers.nameLabel': 'Име за {id}',
+
+  'subtitles.label': 'Титлови:',
+
+  'editor.cancel': 'Откажи',
+  'editor.save': 'Сачувај измене',
+
+  'versions.current': '(тренутна)',
+  'versions.showDiff': 'Разлике',
+  'versions.hideDiff': 'Сакриј разлике',
+  'versions.restore': 'Врати',
+
+  'player.play': 'Пусти',
+  'player.pause': 'Пауза',
+  'player.stop': 'Заустави',
+  'player.speed': 'Брзина репродукције',
+  'player.volume': 'Јачина звука',
+  'player.decodeFailed':
+    'Звук није могуће пустити; фајл је оштећен или формат није подржан.',
+
+  'audio.invalidWav': 'Неисправан WAV фајл.',
+
+  'preprocess.start': 'Почетак',
+  'preprocess.end': 'Крај',
+  'preprocess.autoTrim': 'Аутоматски одсеци тишину',
+  'preprocess.normalize': 'Уједначи јачину',
+  'preprocess.noiseGate': 'Пригушивање шума',
+  'preprocess.removePauses': 'Скрати дуге паузе',
+  'preprocess.apply': 'Примени обраду',
+  'preprocess.revert': 'Врати оригинал',
+  'preprocess.timingNote':
+    'Скраћивање пауза мења времена у транскрипту у односу на оригинални снимак.',
+  'preprocess.unsupported': 'Овај формат није могуће обрадити у претраживачу.',
+  'preprocess.failed': 'Обрада звука није успела.',
+
+  'projects.heading': 'Пројекти',
+  'projects.close': 'Затвори',
+  'projects.new': 'Нови пројекат',
+  'projects.search': 'Претрага по називу или језику',
+  'projects.empty': 'Нема сачуваних пројеката.',
+  'projects.rename': 'Преименуј',
+  'projects.delete': 'Обриши',
+  'projects.confirmDelete': 'Обрисати пројекат „{name}”?',
+  'projects.storage': 'Заузето складиште',
+  'projects.listFailed': 'Није могуће учитати сачуване пројекте.',
+  'projects.renameFailed': 'Преименовање није успело.',
+  'projects.deleteFailed': 'Брисање није успело.',
+  'projects.quota':
+    'Нема довољно простора за чување пројекта. Обришите старе пројекте и покушајте поново.',
+  'projects.saveFailed':
+    'Чување пројекта није успело. Проверите конзолу за детаље.',
+  'projects.notFound': 'Пројекат није пронађен.',
+
+  'glossary.heading': 'Глосар',
+  'glossary.close': 'Затвори',
+  'glossary.language': 'Језик превода',
+  'glossary.search': 'Претражи термине...',
+  'glossary.empty':
+    'Глосар је празан. Додајте термин или увезите CSV/TBX фајл.',
+  'glossary.noMatches': 'Ниједан термин не одговара претрази.',
+  'glossary.term': 'Термин ({language})',
+  'glossary.doNotTranslate': 'Не преводи',
+  'glossary.delete': 'Обриши',
+  'glossary.add': 'Додај термин',
+  'glossary.import': 'Увези CSV/TBX',
+  'glossary.exportCsv': 'Извези CSV',
+  'glossary.exportTbx': 'Извези TBX',
+  'glossary.imported': 'Увезено термина: {count}.',
+  'glossary.importFailed': 'Увоз глосара није успео.',
+  'glossary.csvNoTerm': 'CSV глосар мора имати колону "term".',
+  'glossary.tbxInvalid': 'TBX фајл није исправан XML.',
+
+  'export.heading': 'Извоз нарације',
+  'export.format': 'Формат',
+  'export.wav': 'WAV (некомпресовано)',
+  'export.mp3': 'MP3',
+  'export.sampleRate': 'Фреквенција',
+  'export.bitrate': 'Битрејт',
+  'export.stereo': 'Стерео',
+  'export.title': 'Наслов (WAV метаподаци)',
+  'export.fileName': 'Назив фајла',
+  'export.placeholders': 'Ознаке:',
+  'export.cancel': 'Откажи',
+  'export.download': 'Преузми',
+  'export.failed': 'Извоз није успео. Проверите конзолу за детаље.',
+};
@@ -0,0 +1,299 @@
+// Serbian (Latin) UI messages. This catalog is the reference: its keys define
+// MessageKey and every other catalog must provide all of them. `{name}`
+// placeholders are filled in by the translator.
+export const srLatn = {
+  'app.title': 'AI Audio prevodilac & narator',
+  'app.subtitle':
+    'Snimite ili otpremite audio, dobijte transkripcije, prevode i AI-generisane glasovne naracije.',
+  'app.demoMode':
+    'Demo režim: koristi se lokalni probni servis bez pristupa mreži.',
+  'app.glossary': 'Glosar',
+  'app.projects': 'Projekti',
+  'app.uiLanguage': 'Jezik interfejsa',
+
+  'bundle.export': 'Izvezi sve',
+  'bundle.exporting': 'Pakovanje...',
+  'bundle.import': 'Uvezi paket',
+  'bundle.invalid': 'Fajl nije paket sesije izvezen iz ove aplikacije.',
+  'bundle.missingEntry':
+    'Fajl nije paket sesije izvezen iz ove aplikacije. Nedostaje {name}.',
+  'bundle.invalidJson':
+    'Fajl nije paket sesije izvezen iz ove aplikacije. {name} nije ispravan JSON.',
+  'bundle.newerVersion':
+    'Paket je izvezen iz novije verzije aplikacije i ne može se uvesti.',
+
+  'input.heading': '1. Obezbedite Audio',
+  'input.startRecording': 'Započni Snimanje',
+  'input.stopRecording': 'Zaustavi Snimanje',
+  'input.or': 'ILI',
+  'input.upload': 'Otpremi Fajl',
+  'input.selectedFile': 'Izabran fajl:',
+  'input.preprocessing': 'Obrada zvuka pre slanja',
+  'input.preprocessingApplied': '(primenjena)',
+  'input.recording': 'Snimanje u toku...',
+  'input.liveMode': 'Transkripcija uživo tokom snimanja',
+  'input.liveTranslation': 'Prevod uživo',
+  'input.noLiveTranslation': 'Bez prevoda uživo',
+  'input.liveTranslationOption': 'Prevod uživo: {language}',
+  'input.sourceLanguage': 'Jezik snimka',
+  'input.autoDetect': 'Automatsko prepoznavanje',
+  'input.transcribe': 'Prevedi Audio',
+  'input.chunks': 'Delovi snimka: {done} / {total}',
+  'input.cancelTranscription': 'Otkaži transkripciju',
+  'input.importText': 'Uvezi Tekst',
+
+  'live.transcript': 'Privremeni transkript',
+  'live.replacing': 'zamenjuje se konačnom transkripcijom...',
+  'live.waiting': 'Čeka se prvi deo snimka...',
+  'live.translation': 'Prevod uživo ({language})',
+  'live.failed': 'Transkripcija uživo nije uspela.',
+
+  'error.heading': 'Greška:',
+  'error.unknown': 'Došlo je do nepoznate greške.',
+  'error.microphone':
+    'Nije moguće pristupiti mikrofonu. Proverite dozvole u pretraživaču.',
+
+  'transcript.heading': 'Originalni Transkript ({language})',
+  'transcript.confidence':
+    'Jezik prepoznat automatski, pouzdanost {percent}%',
+  'transcript.edit': 'Izmeni transkript',
+  'transcript.cachedTitle':
+    'Transkript je preuzet iz keša; pošalji snimak ponovo',
+  'transcript.retranslate': 'Ponovo prevedi iz izmenjenog transkripta',
+
+  'cache.refresh': 'Iz keša · Osveži',
+  'cache.badge': 'iz keša',
+
+  'script.label': 'Pismo',
+  'script.latin': 'Latinica',
+  'script.cyrillic': 'Ćirilica',
+
+  'history.button': 'Istorija ({count})',
+  'history.transcription': 'Transkripcija',
+  'history.translation': 'Prevod',
+  'history.edit': 'Izmena',
+  'history.restored': 'Vraćena verzija',
+  'history.textImport': 'Uvezen tekst',
+
+  'translate.heading': '3. Izaberite Jezike za Prevod',
+  'translate.button': 'Prevedi ({count})',
+  'translate.cancel': 'Otkaži prevođenje',
+  'translate.choose': 'Izaberite jezike',
+  'translate.selectedCount': 'Izabrano jezika: {count}',
+  'translate.selectAll': 'Izaberi sve',
+  'translate.deselectAll': 'Poništi sve',
+  'translate.close': 'Zatvori',
+  'translate.presetName': 'Naziv seta (npr. Klijent A)',
+  'translate.savePreset': 'Sačuvaj set',
+  'translate.deletePreset': 'Obriši set {name}',
+
+  'results.heading': '4. Prevodi i Glasovna Naracija',
+  'results.failed': 'Prevod nije dobijen za sledeće jezike:',
+  'results.retry': 'Pokušaj ponovo: {language}',
+
+  'card.cachedTitle': 'Prevod je preuzet iz keša; zatraži ga ponovo',
+  'card.refreshing': 'Osvežavanje...',
+  'card.edit': 'Izmeni prevod',
+  'card.checkQuality': 'Proveri kvalitet',
+  'card.recheckQuality': 'Ponovi proveru kvaliteta',
+  'card.checkingQuality': 'Provera u toku...',
+  'card.backTranslation': 'Povratni prevod',
+  'card.glossaryViolations': 'Odstupanja od glosara ({count})',
+  'card.segment': 'Segment {number}',
+  'card.glossaryKeep': '„{term}” treba da ostane neprevedeno',
+  'card.glossaryExpected': '„{term}” treba prevesti kao „{expected}”',
+  'card.speakerVoices': 'Glasovi govornika',
+  'card.bypassCache': 'Generiši iznova, bez keša',
+  'card.generate': 'Generiši glasovnu naraciju',
+  'card.generateNew': 'Generiši novu verziju',
+  'card.generateStale': 'Generiši ponovo (tekst izmenjen)',
+  'card.mixOriginal': 'Pomešaj sa originalom (utišano)',
+  'card.generateDubbing': 'Generiši dubing (sinhronizovano)',
+  'card.dubbingProgress': 'Segment {done}/{total}',
+  'card.dubbingTake': 'Dubing · {voices}',
+  'card.cancelNarration': 'Otkaži naraciju',
+  'card.cancelDubbing': 'Otkaži dubing',
+  'card.takeCachedTitle': 'Zvuk je preuzet iz keša',
+  'card.stale': 'zastarelo',
+  'card.takeStaleTitle': 'Prevod je izmenjen nakon generisanja ove naracije',
+  'card.download': 'Preuzmi',
+  'card.clip': '{time} · segment {number}: {natural} s u {slot} s',
+  'card.clipOverflow': 'preliva se u sledeći segment',
+  'card.clipStretched': 'ubrzano ×{ratio}',
+  'card.speechFailed': 'Nepoznata greška pri generisanju zvuka.',
+  'card.dubbingFailed': 'Nepoznata greška pri generisanju dubinga.',
+  'card.qualityFailed': 'Provera kvaliteta nije uspela.',
+
+  'quality.staleTitle': 'Prevod je izmenjen nakon provere',
+  'quality.similarity': 'Sličnost {percent}%',
+  'quality.similarityTitle': 'Sličnost povratnog prevoda sa originalom',
+  'quality.length': 'Dužina ×{ratio}',
+  'quality.lengthTitle': 'Odnos dužine prevoda i originala',
+  'quality.lengthOutliers': '{count} odstupa',
+  'quality.untranslated': 'Neprevedeno: {segments}',
+  'quality.wrongScript': 'Pogrešno pismo',
+  'quality.wrongLanguage': 'Pogrešan jezik ({language})',
+  'quality.noBackTranslation': 'Povratni prevod nije primljen.',
+
+  'service.transcription': 'Transkripcija nije uspela.',
+  'service.translation': 'Prevođenje nije uspelo.',
+  'service.speech': 'Generisanje glasa nije uspelo.',
+  'service.auth':
+    'API ključ nedostaje, nije ispravan ili nema pristup modelu. Proverite podešavanje API_KEY.',
+  'service.quota':
+    'Kvota za API je potrošena. Sačekajte da se obnovi ili proverite naplatu u Google AI Studio.',
+  'service.rateLimit':
+    'Poslato je previše zahteva u kratkom roku. Sačekajte minut pa pokušajte ponovo.',
+  'service.unsupportedAudio':
+    'Format snimka nije podržan. Pokušajte sa WAV, MP3 ili WebM fajlom, ili primenite obradu zvuka pre slanja.',
+  'service.invalidRequest':
+    'Servis je odbio zahtev. Proverite ulazne podatke; veoma dugi tekstovi i snimci ponekad prelaze ograničenja.',
+  'service.network':
+    'Nema veze sa servisom. Proverite internet vezu i pokušajte ponovo.',
+  'service.server':
+    'Servis je trenutno preopterećen ili nedostupan. Pokušajte ponovo za nekoliko minuta.',
+  'service.invalidResponse':
+    'Model je vratio neočekivan odgovor. Pokušajte ponovo.',
+  'service.unknown': 'Proverite konzolu za detalje.',
+
+  'textImport.placeholder': 'Nalepite tekst ili titlove (SRT, VTT)...',
+  'textImport.chooseFile': 'Izaberi .txt/.srt/.vtt',
+  'textImport.language': 'Jezik teksta',
+  'textImport.use': 'Koristi tekst',
+  'textImport.hint':
+    'Titlovi zadržavaju vremenske oznake kroz prevod i naraciju.',
+  'textImport.pastedName': 'Uneti tekst',
+  'textImport.readFailed': 'Fajl nije moguće pročitati.',
+  'textImport.noCues': 'Titlovi ne sadrže nijedan ispravan unos.',
+  'textImport.empty': 'Tekst je prazan.',
+
+  'usage.button': 'Potrošnja',
+  'usage.heading': 'Potrošnja API-ja',
+  'usage.close': 'Zatvori',
+  'usage.thisProject': 'Ovaj projekat',
+  'usage.today': 'Danas',
+  'usage.ofBudget': 'od {budget}',
+  'usage.budgets': 'Budžeti (USD):',
+  'usage.sessionBudget': 'po projektu',
+  'usage.dailyBudget': 'dnevno',
+  'usage.noLimit': 'bez limita',
+  'usage.empty': 'Još nema zabeleženih poziva API-ja.',
+  'usage.byProject': 'Po projektima',
+  'usage.byDay': 'Po danima',
+  'usage.project': 'Projekat',
+  'usage.noProject': 'Bez projekta',
+  'usage.date': 'Datum',
+  'usage.calls': 'Pozivi',
+  'usage.inputTokens': 'Ulazni tokeni',
+  'usage.outputTokens': 'Izlazni tokeni',
+  'usage.audioMinutes': 'Audio (min)',
+  'usage.cost': 'Trošak',
+  'usage.prices': 'Cene (USD za milion tokena)',
+  'usage.model': 'Model',
+  'usage.price.input': 'Ulaz',
+  'usage.price.inputAudio': 'Ulaz (audio)',
+  'usage.price.output': 'Izlaz',
+  'usage.estimateNote':
+    'Troškovi su procena na osnovu tokena koje prijavljuje API i ove tabele cena. Rezultati iz keša se ne naplaćuju.',
+  'usage.resetPrices': 'Vrati podrazumevane cene',
+  'usage.clear': 'Obriši evidenciju',
+  'usage.confirmClear': 'Obrisati svu zabeleženu potrošnju?',
+  'usage.sessionBudgetWarning':
+    'Procenjeni trošak ove operacije je {estimate}, a projekat je već potrošio {spent} od budžeta {budget}. Nastaviti?',
+  'usage.dailyBudgetWarning':
+    'Procenjeni trošak ove operacije je {estimate}, a danas je već potrošeno {spent} od dnevnog budžeta {budget}. Nastaviti?',
+
+  'voice.label': 'Glas',
+  'voice.preview': 'Uzorak',
+  'voice.previewTitle': 'Preslušaj kratak uzorak ovog glasa',
+  'voice.stylePlaceholder': 'Stil (npr. smireno, kao voditelj vesti, sporije)',
+
+  'speakers.heading': 'Govornici',
+  'speakers.nameLabel': 'Ime za {id}',
+
+  'subtitles.label': 'Titlovi:',
+
+  'editor.cancel': 'Otkaži',
+  'editor.save': 'Sačuvaj izmene',
+
+  'versions.current': '(trenutna)',
+  'versions.showDiff': 'Razlike',
+  'versions.hideDiff': 'Sakrij razlike',
+  'versions.restore': 'Vrati',
+
+  'player.play': 'Pusti',
+  'player.pause': 'Pauza',
+  'player.stop': 'Zaustavi',
+  'player.speed': 'Brzina reprodukcije',
+  'player.volume': 'Jačina zvuka',
+  'player.decodeFailed':
+    'Zvuk nije moguće pustiti; fajl je oštećen ili format nije podržan.',
+
+  'audio.invalidWav': 'Neispravan WAV fajl.',
+
+  'preprocess.start': 'Početak',
+  'preprocess.end': 'Kraj',
+  'preprocess.autoTrim': 'Automatski odseci tišinu',
+  'preprocess.normalize': 'Ujednači jačinu',
+  'preprocess.noiseGate': 'Prigušivanje šuma',
+  'preprocess.removePauses': 'Skrati duge pauze',
+  'preprocess.apply': 'Primeni obradu',
+  'preprocess.revert': 'Vrati original',
+  'preprocess.timingNote':
+    'Skraćivanje pauza menja vremena u transkriptu u odnosu na originalni snimak.',
+  'preprocess.unsupported': 'Ovaj format nije moguće obraditi u pretraživaču.',
+  'preprocess.failed': 'Obrada zvuka nije uspela.',
+
+  'projects.heading': 'Projekti',
+  'projects.close': 'Zatvori',
+  'projects.new': 'Novi projekat',
+  'projects.search': 'Pretraga po nazivu ili jeziku',
+  'projects.empty': 'Nema sačuvanih projekata.',
+  'projects.rename': 'Preimenuj',
+  'projects.delete': 'Obriši',
+  'projects.confirmDelete': 'Obrisati projekat „{name}”?',
+  'projects.storage': 'Zauzeto skladište',
+  'projects.listFailed': 'Nije moguće učitati sačuvane projekte.',
+  'projects.renameFailed': 'Preimenovanje nije uspelo.',
+  'projects.deleteFailed': 'Brisanje nije uspelo.',
+  'projects.quota':
+    'Nema dovoljno prostora za čuvanje projekta. Obrišite stare projekte i pokušajte ponovo.',
+  'projects.saveFailed':
+    'Čuvanje projekta nije uspelo. Proverite konzolu za detalje.',
+  'projects.notFound': 'Projekat nije pronađen.',
+
+  'glossary.heading': 'Glosar',
+  'glossary.close': 'Zatvori',
+  'glossary.language': 'Jezik prevoda',
+  'glossary.search': 'Pretraži termine...',
+  'glossary.empty':
+    'Glosar je prazan. Dodajte termin ili uvezite CSV/TBX fajl.',
+  'glossary.noMatches': 'Nijedan termin ne odgovara pretrazi.',
+  'glossary.term': 'Termin ({language})',
+  'glossary.doNotTranslate': 'Ne prevodi',
+  'glossary.delete': 'Obriši',
+  'glossary.add': 'Dodaj termin',
+  'glossary.import': 'Uvezi CSV/TBX',
+  'glossary.exportCsv': 'Izvezi CSV',
+  'glossary.exportTbx': 'Izvezi TBX',
+  'glossary.imported': 'Uvezeno termina: {count}.',
+  'glossary.importFailed': 'Uvoz glosara nije uspeo.',
+  'glossary.csvNoTerm': 'CSV glosar mora imati kolonu "term".',
+  'glossary.tbxInvalid': 'TBX fajl nije ispravan XML.',
+
+  'export.heading': 'Izvoz naracije',
+  'export.format': 'Format',
+  'export.wav': 'WAV (nekompresovano)',
+  'export.mp3': 'MP3',
+  'export.sampleRate': 'Frekvencija',
+  'export.bitrate': 'Bitrate',
+  'export.stereo': 'Stereo',
+  'export.title': 'Naslov (WAV metapodaci)',
+  'export.fileName': 'Naziv fajla',
+  'export.placeholders': 'Oznake:',
+  'export.cancel': 'Otkaži',
+  'export.download': 'Preuzmi',
+  'export.failed': 'Izvoz nije uspeo. Proverite konzolu za detalje.',
+};
+
+export type MessageKey = keyof typeof srLatn;
@@ -0,0 +1,297 @@
+import {
+  ChunkProgress,
+  SpeechProvider,
+  Transcript,
+  TranscriptionOptions,
+  TranscriptSegment,
+} from '../types';
+import {
+  CHUNK_CONCURRENCY,
+  CHUNK_OVERLAP_SECONDS,
+  CHUNK_SAMPLE_RATE,
+  CHUNK_SEARCH_SECONDS,
+  CHUNK_TARGET_SECONDS,
+} from '../constants';
+import {
+  AudioChunk,
+  decodeAudioToMono,
+  encode,
+  fileToBase64,
+  pcmToWavBlob,
+  splitAtSilences,
+} from '../utils/audioUtils';
+import { abortable, mapWithConcurrency } from '../utils/asyncUtils';
+import { joinSegmentTexts } from '../utils/subtitleUtils';
+import { defaultSpeakerName } from '../utils/speakerUtils';
+
+export interface ChunkedTranscriptionOptions extends TranscriptionOptions {
+  sourceLanguageCode?: string;
+  onProgress?: (progress: ChunkProgress[]) => void;
+}
+
+const MAX_REPEATED_WORDS = 8;
+
+const normalizeWord = (word: string) =>
+  word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Drops words at the start of `next` that repeat the end of `previous`, which
+// happens when a phrase in the overlap was transcribed by both chunks.
+const trimRepeatedWords = (previous: string, next: string): string => {
+  const prevWords = previous.split(/\s+/).map(normalizeWord);
+  const nextWords = next.trim().split(/\s+/);
+  const normalizedNext = nextWords.map(normalizeWord);
+  const max = Math.min(MAX_REPEATED_WORDS, prevWords.length, nextWords.length);
+  for (let k = max; k > 0; k--) {
+    const tail = prevWords.slice(prevWords.length - k);
+    if (tail.every((word, i) => word && word === normalizedNext[i])) {
+      return nextWords.slice(k).join(' ');
+    }
+  }
+  return next.trim();
+};
+
+const overlapSeconds = (a: TranscriptSegment, b: TranscriptSegment) =>
+  Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+
+// Each chunk numbers its speakers on its own. A chunk's speakers are matched
+// to the ones already stitched through the overlap, which both chunks
+// transcribed: the stitched speaker heard most at the same time wins.
+// Speakers without a match keep their number if it is still free, otherwise
+// they get a new one.
+const matchSpeakers = (
+  stitched: TranscriptSegment[],
+  overlapping: TranscriptSegment[],
+  localIds: string[],
+  knownIds: string[]
+): Map<string, string> => {
+  const votes = new Map<string, Map<string, number>>();
+  for (const segment of overlapping) {
+    if (!segment.speaker) continue;
+    for (const previous of stitched) {
+      const shared = overlapSeconds(segment, previous);
+      if (!previous.speaker || shared === 0) continue;
+      const tally = votes.get(segment.speaker) ?? new Map<string, number>();
+      tally.set(previous.speaker, (tally.get(previous.speaker) ?? 0) + shared);
+      votes.set(segment.speaker, tally);
+    }
+  }
+
+  const mapping = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const localId of localIds) {
+    const best = [...(votes.get(localId) ?? [])]
+      .filter(([id]) => !taken.has(id))
+      .sort((a, b) => b[1] - a[1])[0];
+    if (best) {
+      mapping.set(localId, best[0]);
+      taken.add(best[0]);
+    }
+  }
+  let next = knownIds.length;
+  for (const localId of localIds) {
+    if (mapping.has(localId)) continue;
+    const id =
+      knownIds.includes(localId) && !taken.has(localId)
+        ? localId
+        : `speaker-${++next}`;
+    mapping.set(localId, id);
+    taken.add(id);
+  }
+  return mapping;
+};
+
+const stitchTranscripts = (
+  chunks: AudioChunk[],
+  transcripts: Transcript[]
+): Transcript => {
+  const segments: TranscriptSegment[] = [];
+  const speakerIds: string[] = [];
+
+  transcripts.forEach((transcript, i) => {
+    const chunk = chunks[i];
+    // Providers without timing still get a segment spanning the chunk.
+    const chunkSegments =
+      transcript.segments.length > 0
+        ? transcript.segments
+        : [
+            {
+              start: chunk.nominalStart - chunk.start,
+              end: chunk.end - chunk.start,
+              text: transcript.text,
+            },
+          ];
+    const placed = chunkSegments.map((segment) => ({
+      ...segment,
+      start: chunk.start + segment.start,
+      end: Math.min(chunk.end, chunk.start + segment.end),
+    }));
+    // Segments centred in the overlap belong to the previous chunk.
+    const isOverlap = (segment: TranscriptSegment) =>
+      i > 0 && (segment.start + segment.end) / 2 < chunk.nominalStart;
+
+    const speakerFor = matchSpeakers(
+      segments,
+      placed.filter(isOverlap),
+      transcript.speakers.map((speaker) => speaker.id),
+      speakerIds
+    );
+    speakerFor.forEach((id) => {
+      if (!speakerIds.includes(id)) speakerIds.push(id);
+    });
+
+    for (const segment of placed) {
+      if (isOverlap(segment)) continue;
+      const previous = segments[segments.length - 1];
+      const text = previous
+        ? trimRepeatedWords(previous.text, segment.text)
+        : segment.text.trim();
+      if (!text) continue;
+      const speaker = segment.speaker && speakerFor.get(segment.speaker);
+      segments.push({
+        start: segment.start,
+        end: segment.end,
+        text,
+        ...(speaker && { speaker }),
+      });
+    }
+  });
+
+  // Diarization across chunks is a best guess; users can fix names later.
+  const used = new Set(segments.map((segment) => segment.speaker));
+  const speakers = speakerIds
+    .filter((id) => used.has(id))
+    .map((id, index) => ({ id, name: defaultSpeakerName(index) }));
+
+  return {
+    text: joinSegmentTexts(segments.map((segment) => segment.text)),
+    segments,
+    speakers,
+    languageCode: transcripts[0].languageCode,
+    languageConfidence: transcripts[0].languageConfidence,
+  };
+};
+
+// Cuts mono samples at silences into overlapping chunks of about
+// CHUNK_TARGET_SECONDS, one transcription request each.
+export const chunkAudio = (
+  samples: Float32Array,
+  sampleRate: number
+): AudioChunk[] =>
+  splitAtSilences(samples, {
+    sampleRate,
+    targetSeconds: CHUNK_TARGET_SECONDS,
+    searchSeconds: CHUNK_SEARCH_SECONDS,
+    overlapSeconds: CHUNK_OVERLAP_SECONDS,
+  });
+
+// Transcribes the chunks of one recording as WAV with limited concurrency and
+// stitches the results into a single transcript.
+export const transcribeChunks = async (
+  provider: SpeechProvider,
+  chunks: AudioChunk[],
+  sampleRate: number,
+  {
+    sourceLanguageCode,
+    onProgress,
+    ...requestOptions
+  }: ChunkedTranscriptionOptions = {}
+): Promise<Transcript> => {
+  const { signal } = requestOptions;
+  const progress: ChunkProgress[] = chunks.map((chunk, index) => ({
+    index,
+    start: chunk.nominalStart,
+    end: chunk.end,
+    status: 'pending',
+  }));
+  const setStatus = (index: number, status: ChunkProgress['status']) => {
+    progress[index] = { ...progress[index], status };
+    onProgress?.([...progress]);
+  };
+  onProgress?.([...progress]);
+
+  const transcribeChunk = async (
+    chunk: AudioChunk,
+    index: number,
+    languageCode?: string
+  ) => {
+    setStatus(index, 'running');
+    try {
+      // Encoded without FileReader so the batch CLI can use this too.
+      const wav = pcmToWavBlob(chunk.samples, sampleRate, 1);
+      const audioBase64 = encode(new Uint8Array(await wav.arrayBuffer()));
+      const transcript = await abortable(
+        provider.transcribeAudio(
+          audioBase64,
+          'audio/wav',
+          languageCode,
+          requestOptions
+        ),
+        signal
+      );
+      setStatus(index, 'done');
+      return transcript;
+    } catch (error) {
+      setStatus(index, 'error');
+      throw error;
+    }
+  };
+
+  // The first chunk settles the language so every later chunk uses the same one.
+  const first = await transcribeChunk(chunks[0], 0, sourceLanguageCode);
+  const rest = await mapWithConcurrency(
+    chunks.slice(1),
+    CHUNK_CONCURRENCY,
+    (chunk, i) => transcribeChunk(chunk, i + 1, first.languageCode),
+    signal
+  );
+
+  return stitchTranscripts(chunks, [first, ...rest]);
+};
+
+// Transcribes a recording of any length. Short or undecodable files go out in
+// a single inline request as before; longer ones are split at silences into
+// overlapping WAV chunks that are transcribed with limited concurrency.
+export const transcribeLongAudio = async (
+  provider: SpeechProvider,
+  file: File,
+  {
+    sourceLanguageCode,
+    onProgress,
+    ...requestOptions
+  }: ChunkedTranscriptionOptions = {}
+): Promise<Transcript> => {
+  const { signal } = requestOptions;
+  const transcribeWhole = async () => {
+    onProgress?.([{ index: 0, start: 0, end: 0, status: 'running' }]);
+    const audioBase64 = await fileToBase64(file);
+    const transcript = await abortable(
+      provider.transcribeAudio(
+        audioBase64,
+        file.type,
+        sourceLanguageCode,
+        requestOptions
+      ),
+      signal
+    );
+    onProgress?.([{ index: 0, start: 0, end: 0, status: 'done' }]);
+    return transcript;
+  };
+
+  let samples: Float32Array;
+  try {
+    samples = await decodeAudioToMono(file, CHUNK_SAMPLE_RATE);
+  } catch (error) {
+    console.warn('Audio could not be decoded, sending it whole:', error);
+    return transcribeWhole();
+  }
+
+  const chunks = chunkAudio(samples, CHUNK_SAMPLE_RATE);
+  if (chunks.length <= 1) {
+    return transcribeWhole();
+  }
+  return transcribeChunks(provider, chunks, CHUNK_SAMPLE_RATE, {
+    sourceLanguageCode,
+    onProgress,
+    ...requestOptions,
+  });
+};
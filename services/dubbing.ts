@@ -0,0 +1,149 @@
+import {
+  DubbingClip,
+  RequestOptions,
+  SpeechProvider,
+  TranscriptSegment,
+} from '../types';
+import {
+  DUBBING_CONCURRENCY,
+  DUBBING_DUCK_FADE_SECONDS,
+  DUBBING_DUCK_GAIN,
+  DUBBING_MAX_STRETCH,
+  TTS_SAMPLE_RATE,
+} from '../constants';
+import {
+  convertUint8ArrayToInt16Array,
+  decodeAudioToMono,
+  decodeBase64,
+  floatToInt16,
+} from '../utils/audioUtils';
+import { mapWithConcurrency } from '../utils/asyncUtils';
+import { timeStretch } from '../utils/timeStretch';
+
+export interface DubbingRequest extends RequestOptions {
+  segments: TranscriptSegment[];
+  voiceName: string;
+  style?: string;
+  // Speaker id → voice name; speakers without an entry use `voiceName`.
+  speakerVoices?: Record<string, string>;
+  // The original recording; sets the track length and is mixed in when
+  // `mixOriginal` is on.
+  sourceAudio: Blob | null;
+  mixOriginal: boolean;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface DubbingResult {
+  // Mono PCM at TTS_SAMPLE_RATE, as long as the source.
+  pcm: Int16Array;
+  clips: DubbingClip[];
+}
+
+const pcmToFloat = (pcm: Int16Array) => {
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) samples[i] = pcm[i] / 32768;
+  return samples;
+};
+
+// Gain envelope for the original: DUBBING_DUCK_GAIN wherever a clip plays,
+// full level elsewhere, with short linear fades between the two.
+const duckEnvelope = (length: number, ranges: [number, number][]) => {
+  const envelope = new Float32Array(length).fill(1);
+  const fade = Math.round(DUBBING_DUCK_FADE_SECONDS * TTS_SAMPLE_RATE);
+  for (const [start, end] of ranges) {
+    const from = Math.max(0, start - fade);
+    const to = Math.min(length, end + fade);
+    for (let i = from; i < to; i++) {
+      const distance = i < start ? start - i : i >= end ? i - end + 1 : 0;
+      const gain =
+        DUBBING_DUCK_GAIN +
+        (1 - DUBBING_DUCK_GAIN) * Math.min(1, distance / fade);
+      envelope[i] = Math.min(envelope[i], gain);
+    }
+  }
+  return envelope;
+};
+
+// Narrates every timed segment on its own and places it at the segment's
+// original start time, producing one track the length of the source.
+export const generateDubbingTrack = async (
+  provider: SpeechProvider,
+  {
+    segments,
+    voiceName,
+    style,
+    speakerVoices = {},
+    sourceAudio,
+    mixOriginal,
+    onProgress,
+    ...requestOptions
+  }: DubbingRequest
+): Promise<DubbingResult> => {
+  const original = sourceAudio
+    ? await decodeAudioToMono(sourceAudio, TTS_SAMPLE_RATE)
+    : null;
+  const lastEnd = segments.reduce((max, s) => Math.max(max, s.end), 0);
+  const duration = original ? original.length / TTS_SAMPLE_RATE : lastEnd;
+
+  let done = 0;
+  onProgress?.(0, segments.length);
+  const narrated = await mapWithConcurrency(
+    segments,
+    DUBBING_CONCURRENCY,
+    async (segment) => {
+      const base64 = await provider.generateSpeech(segment.text, {
+        voiceName:
+          (segment.speaker && speakerVoices[segment.speaker]) || voiceName,
+        style,
+        ...requestOptions,
+      });
+      onProgress?.(++done, segments.length);
+      return pcmToFloat(convertUint8ArrayToInt16Array(decodeBase64(base64)));
+    },
+    requestOptions.signal
+  );
+
+  const length = Math.ceil(Math.max(duration, lastEnd) * TTS_SAMPLE_RATE);
+  const track = new Float32Array(length);
+  const clips: DubbingClip[] = [];
+  const ranges: [number, number][] = [];
+
+  segments.forEach((segment, index) => {
+    const nextStart = segments[index + 1]?.start ?? duration;
+    const slot = Math.max(0, nextStart - segment.start);
+    const naturalDuration = narrated[index].length / TTS_SAMPLE_RATE;
+    const needed = slot > 0 ? naturalDuration / slot : Infinity;
+    const stretchRatio =
+      needed > 1 ? Math.min(needed, DUBBING_MAX_STRETCH) : 1;
+    const clip = timeStretch(narrated[index], stretchRatio, TTS_SAMPLE_RATE);
+
+    // Overflowing clips still play in full and overlap what follows.
+    const offset = Math.round(segment.start * TTS_SAMPLE_RATE);
+    for (let i = 0; i < clip.length && offset + i < length; i++) {
+      track[offset + i] += clip[i];
+    }
+    ranges.push([offset, Math.min(length, offset + clip.length)]);
+    clips.push({
+      index,
+      start: segment.start,
+      slot,
+      naturalDuration,
+      stretchRatio,
+      status:
+        needed <= 1
+          ? 'fit'
+          : needed <= DUBBING_MAX_STRETCH
+          ? 'stretched'
+          : 'overflow',
+    });
+  });
+
+  if (original && mixOriginal) {
+    const envelope = duckEnvelope(length, ranges);
+    for (let i = 0; i < Math.min(length, original.length); i++) {
+      track[i] += original[i] * envelope[i];
+    }
+  }
+
+  return { pcm: floatToInt16(track), clips };
+};
@@ -1,45 +1,207 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { Language, Translation } from '../types';
+import { GenerateContentResponseUsageMetadata, GoogleGenAI, MediaModality, Modality, Type } from "@google/genai";
+import { GlossaryEntry, Language, RequestOptions, SerbianScript, ServiceOperation, SpeechOptions, SpeechProvider, Transcript, TranscriptionOptions, TranscriptSegment, Translation, TranslationOptions } from '../types';
+import { alignSegments, joinSegmentTexts } from '../utils/subtitleUtils';
+import { findLanguage } from '../utils/languageUtils';
+import { assignSpeakers } from '../utils/speakerUtils';
+import { glossaryTermsFor } from '../utils/glossary';
+import { transliterate } from '../utils/serbianScript';
+import { createAbortError, isAbortError, retryWithBackoff } from '../utils/asyncUtils';
+import { isRetryableError, ServiceError, toServiceError } from './serviceErrors';
+import { AUDIO_TOKENS_PER_SECOND, AUTO_DETECT_LANGUAGE, DEFAULT_VOICE, RETRY_BASE_DELAY_MS, RETRY_MAX_ATTEMPTS, RETRY_MAX_DELAY_MS, TTS_SAMPLE_RATE } from '../constants';
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable is not set");
-}
+const MODELS: Record<ServiceOperation, string> = {
+    transcription: 'gemini-2.5-flash',
+    translation: 'gemini-2.5-flash',
+    speech: 'gemini-2.5-flash-preview-tts',
+};
+
+let client: GoogleGenAI | null = null;
+
+// The client is created on first use so the app can render (e.g. with the
+// mock provider) when no API key is configured.
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    if (!process.env.API_KEY) {
+      throw new Error("API_KEY environment variable is not set");
+    }
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const toError = (error: unknown, operation: ServiceOperation, signal?: AbortSignal) =>
+    // The SDK's own abort error varies by runtime.
+    signal?.aborted ? createAbortError() : toServiceError(error, operation);
 
-export const transcribeAudio = async (audioBase64: string, mimeType: string): Promise<string> => {
-  try {
+// Runs one request, parsing included, retrying transient failures with
+// backoff. Rejects with a ServiceError, or an AbortError once `signal` aborts.
+const callApi = async <T>(operation: ServiceOperation, signal: AbortSignal | undefined, request: () => Promise<T>): Promise<T> => {
+    try {
+        return await retryWithBackoff(async () => {
+            try {
+                return await request();
+            } catch (error) {
+                throw toError(error, operation, signal);
+            }
+        }, {
+            maxAttempts: RETRY_MAX_ATTEMPTS,
+            baseDelayMs: RETRY_BASE_DELAY_MS,
+            maxDelayMs: RETRY_MAX_DELAY_MS,
+            shouldRetry: isRetryableError,
+            signal,
+        });
+    } catch (error) {
+        if (!isAbortError(error)) {
+            console.error(`Error during ${operation}:`, (error as ServiceError).cause ?? error);
+        }
+        throw error;
+    }
+};
+
+// Thinking tokens are billed as output. Speech reports the length of the
+// generated audio; transcription derives the input audio length from tokens.
+const reportUsage = (onUsage: RequestOptions['onUsage'], operation: ServiceOperation, metadata: GenerateContentResponseUsageMetadata | undefined, outputAudioSeconds = 0) => {
+    if (!onUsage) return;
+    const inputAudioTokens = metadata?.promptTokensDetails?.find(detail => detail.modality === MediaModality.AUDIO)?.tokenCount ?? 0;
+    onUsage({
+        operation,
+        model: MODELS[operation],
+        inputTokens: metadata?.promptTokenCount ?? 0,
+        inputAudioTokens,
+        outputTokens: (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0),
+        audioSeconds: operation === 'speech' ? outputAudioSeconds : inputAudioTokens / AUDIO_TOKENS_PER_SECOND,
+    });
+};
+
+// Length of base64-encoded 16-bit TTS audio.
+const pcmSeconds = (base64Length: number) => (base64Length * 3) / 4 / 2 / TTS_SAMPLE_RATE;
+
+const SCRIPT_INSTRUCTIONS: Record<SerbianScript, string> = {
+    latin: 'Ako se u snimku govori srpski, piši isključivo latinicom.',
+    cyrillic: 'Ako se u snimku govori srpski, piši isključivo ćirilicom.',
+};
+
+export const transcribeAudio = (audioBase64: string, mimeType: string, sourceLanguageCode: string = AUTO_DETECT_LANGUAGE, { signal, serbianScript, onUsage }: TranscriptionOptions = {}): Promise<Transcript> =>
+  callApi('transcription', signal, async () => {
+    const ai = getClient();
+    const sourceLanguage = findLanguage(sourceLanguageCode);
     const audioPart = {
       inlineData: {
         mimeType: mimeType,
         data: audioBase64,
       },
     };
+    const languageInstruction = sourceLanguage
+      ? `Snimak je na jeziku: ${sourceLanguage.englishName} (${sourceLanguage.code}). Transkribuj ga na tom jeziku.`
+      : 'Prepoznaj jezik kojim se govori u snimku i transkribuj ga na tom jeziku. Navedi ISO 639-1 kod prepoznatog jezika i pouzdanost prepoznavanja od 0 do 1.';
+    const scriptInstruction = serbianScript && (!sourceLanguage || sourceLanguage.code === 'sr')
+      ? ` ${SCRIPT_INSTRUCTIONS[serbianScript]}`
+      : '';
     const textPart = {
-      text: "Transkribuj ovaj audio snimak na srpskom jeziku. Vrati samo transkribovani tekst.",
+      text: `${languageInstruction}${scriptInstruction} Podeli transkript na segmente pogodne za titlove (rečenice ili kratke fraze) i za svaki segment navedi vreme početka i kraja u sekundama od početka snimka. Ako u snimku govori više osoba, za svaki segment navedi oznaku govornika (npr. "Speaker 1", "Speaker 2") i koristi istu oznaku za istu osobu kroz ceo snimak.`,
     };
 
     const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
+        model: MODELS.transcription,
         contents: { parts: [audioPart, textPart] },
+        config: {
+            abortSignal: signal,
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    languageCode: {
+                        type: Type.STRING,
+                        description: 'ISO 639-1 kod jezika snimka (npr. "sr", "en").',
+                    },
+                    confidence: {
+                        type: Type.NUMBER,
+                        description: 'Pouzdanost prepoznavanja jezika od 0 do 1.',
+                    },
+                    segments: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                start: {
+                                    type: Type.NUMBER,
+                                    description: 'Početak segmenta u sekundama.',
+                                },
+                                end: {
+                                    type: Type.NUMBER,
+                                    description: 'Kraj segmenta u sekundama.',
+                                },
+                                text: {
+                                    type: Type.STRING,
+                                    description: 'Transkribovani tekst segmenta.',
+                                },
+                                speaker: {
+                                    type: Type.STRING,
+                                    description: 'Oznaka govornika (npr. "Speaker 1").',
+                                },
+                            },
+                            required: ["start", "end", "text"],
+                        },
+                    },
+                },
+                required: ["languageCode", "segments"],
+            },
+        },
     });
+    reportUsage(onUsage, 'transcription', response.usageMetadata);
 
-    return response.text.trim();
-  } catch (error) {
-    console.error("Error during transcription:", error);
-    throw new Error("Transkripcija nije uspela. Proverite konzolu za detalje.");
-  }
+    const parsedResponse = JSON.parse(response.text);
+    const { ids, speakers } = assignSpeakers(parsedResponse.segments.map((item: any) => item.speaker));
+    // A single detected speaker isn't worth labelling.
+    const diarized = speakers.length > 1;
+    const languageCode = sourceLanguage ? sourceLanguage.code : String(parsedResponse.languageCode).toLowerCase();
+    // The model sometimes mixes scripts; transliteration settles the rest.
+    const toScript = (text: string) => serbianScript && languageCode === 'sr' ? transliterate(text, serbianScript) : text;
+    const segments: TranscriptSegment[] = parsedResponse.segments.map((item: any, i: number) => ({
+        start: Number(item.start),
+        end: Number(item.end),
+        text: toScript(String(item.text).trim()),
+        speaker: diarized ? ids[i] : undefined,
+    }));
+
+    return {
+        text: joinSegmentTexts(segments.map(segment => segment.text)),
+        segments,
+        speakers: diarized ? speakers : [],
+        languageCode,
+        languageConfidence: sourceLanguage ? undefined : Number(parsedResponse.confidence ?? 0),
+    };
+  });
+
+// Spells out the required terminology for each target language.
+const glossaryInstructions = (glossary: GlossaryEntry[], targetLanguages: Language[]): string => {
+    const keep = glossary.filter(entry => entry.doNotTranslate && entry.term.trim()).map(entry => `"${entry.term.trim()}"`);
+    const lines = targetLanguages.flatMap(lang => {
+        const terms = glossaryTermsFor(glossary.filter(entry => !entry.doNotTranslate), lang.code);
+        return terms.length > 0 ? [`${lang.englishName} (${lang.code}): ${terms.map(t => `"${t.term}" → "${t.target}"`).join(', ')}`] : [];
+    });
+    return [
+        lines.length > 0 ? `Obavezno koristi sledeće prevode termina:\n${lines.join('\n')}` : '',
+        keep.length > 0 ? `Sledeće termine ne prevodi, ostavi ih tačno ovako: ${keep.join(', ')}.` : '',
+    ].filter(Boolean).join('\n');
 };
 
-export const translateText = async (text: string, targetLanguages: Language[]): Promise<Translation[]> => {
-    try {
+export const translateText = (source: Transcript, targetLanguages: Language[], options: TranslationOptions = {}): Promise<Translation[]> =>
+    callApi('translation', options.signal, async () => {
+        const ai = getClient();
         const languageList = targetLanguages.map(lang => `${lang.englishName} (${lang.code})`).join(', ');
-        
+        const sourceLanguage = findLanguage(source.languageCode);
+        const sourceLanguageName = sourceLanguage ? `${sourceLanguage.englishName} (${sourceLanguage.code})` : source.languageCode;
+        // Segments are translated one-to-one so the subtitle timing carries over.
+        const sourceSegments = source.segments.length > 0 ? source.segments.map(segment => segment.text) : [source.text];
+        const glossary = glossaryInstructions(options.glossary ?? [], targetLanguages);
+
         const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: `Prevedi sledeći srpski tekst na navedene jezike: ${languageList}. Vrati rezultat kao JSON niz objekata. Svaki objekat treba da ima "languageCode" (npr. "en") i "translatedText" ključeve. Prevod treba da zadrži sličan ton, stil i broj znakova.\n\nTekst za prevod:\n"${text}"`,
+            model: MODELS.translation,
+            contents: `Prevedi sledeći tekst sa jezika ${sourceLanguageName} na navedene jezike: ${languageList}. Tekst je dat kao JSON niz segmenata. Vrati rezultat kao JSON niz objekata. Svaki objekat treba da ima "languageCode" (npr. "en") i "translatedSegments" ključeve, gde je "translatedSegments" niz prevedenih segmenata istim redosledom i u istom broju kao original. Prevod treba da zadrži sličan ton, stil i broj znakova.${glossary ? `\n\n${glossary}` : ''}\n\nSegmenti za prevod:\n${JSON.stringify(sourceSegments)}`,
             config: {
+                abortSignal: options.signal,
                 responseMimeType: "application/json",
                 responseSchema: {
                     type: Type.ARRAY,
@@ -50,57 +212,115 @@ export const translateText = async (text: string, targetLanguages: Language[]):
                                 type: Type.STRING,
                                 description: 'ISO 639-1 kod jezika (npr. "en", "de").',
                             },
-                            translatedText: {
-                                type: Type.STRING,
-                                description: 'Prevedeni tekst.',
+                            translatedSegments: {
+                                type: Type.ARRAY,
+                                items: { type: Type.STRING },
+                                description: 'Prevedeni segmenti, jedan za svaki originalni segment.',
                             },
                         },
-                        required: ["languageCode", "translatedText"],
+                        required: ["languageCode", "translatedSegments"],
                     },
                 },
             },
         });
+        reportUsage(options.onUsage, 'translation', response.usageMetadata);
 
         const parsedResponse = JSON.parse(response.text);
         
         return parsedResponse.map((item: any) => {
             const lang = targetLanguages.find(l => l.code === item.languageCode);
+            const translatedSegments: string[] = item.translatedSegments ?? [];
             return {
                 languageCode: item.languageCode,
                 languageName: lang ? lang.name : item.languageCode,
-                text: item.translatedText,
+                text: joinSegmentTexts(translatedSegments),
+                segments: alignSegments(source.segments, translatedSegments),
             };
         });
-
-    } catch (error) {
-        console.error("Error during translation:", error);
-        throw new Error("Prevođenje nije uspelo. Proverite konzolu za detalje.");
-    }
-};
+    });
 
 
-export const generateSpeech = async (text: string): Promise<string> => {
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                      prebuiltVoiceConfig: { voiceName: 'Kore' }, // Female-sounding voice
-                    },
+// Shared by the one-shot and streaming TTS calls.
+const speechRequest = (text: string, options: SpeechOptions) => {
+    const speakerVoices = options.speakerVoices ?? [];
+    // The TTS model takes delivery instructions as a natural-language prefix.
+    const instructions = [
+        speakerVoices.length > 0 ? `TTS the following conversation between ${speakerVoices.map(sv => sv.speaker).join(' and ')}` : '',
+        options.style ? `in the following style (${options.style})` : '',
+    ].filter(Boolean).join(' ');
+    const prompt = instructions ? `${instructions}:\n${text}` : text;
+    return {
+        model: MODELS.speech,
+        contents: [{ parts: [{ text: prompt }] }],
+        config: {
+            abortSignal: options.signal,
+            responseModalities: [Modality.AUDIO],
+            speechConfig: speakerVoices.length > 0 ? {
+                multiSpeakerVoiceConfig: {
+                    speakerVoiceConfigs: speakerVoices.map(sv => ({
+                        speaker: sv.speaker,
+                        voiceConfig: { prebuiltVoiceConfig: { voiceName: sv.voiceName } },
+                    })),
+                },
+            } : {
+                voiceConfig: {
+                  prebuiltVoiceConfig: { voiceName: options.voiceName ?? DEFAULT_VOICE },
                 },
             },
-        });
+        },
+    };
+};
+
+export const generateSpeech = (text: string, options: SpeechOptions = {}): Promise<string> =>
+    callApi('speech', options.signal, async () => {
+        const ai = getClient();
+        const response = await ai.models.generateContent(speechRequest(text, options));
         
         const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        reportUsage(options.onUsage, 'speech', response.usageMetadata, pcmSeconds(base64Audio?.length ?? 0));
         if (!base64Audio) {
-            throw new Error("Nije primljen audio sadržaj od API-ja.");
+            throw new ServiceError('invalidResponse', 'speech');
         }
         return base64Audio;
+    });
+
+// Only opening the stream is retried; once audio has been handed out, a
+// failure ends the stream.
+export async function* generateSpeechStream(text: string, options: SpeechOptions = {}): AsyncGenerator<string> {
+    const stream = await callApi('speech', options.signal, () => getClient().models.generateContentStream(speechRequest(text, options)));
+    let received = false;
+    let base64Length = 0;
+    // Usage comes with the final chunks; whatever arrived is reported even
+    // when the stream fails or is abandoned.
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    try {
+        for await (const chunk of stream) {
+            usage = chunk.usageMetadata ?? usage;
+            for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+                if (part.inlineData?.data) {
+                    received = true;
+                    base64Length += part.inlineData.data.length;
+                    yield part.inlineData.data;
+                }
+            }
+        }
     } catch (error) {
-        console.error("Error generating speech:", error);
-        throw new Error("Generisanje glasa nije uspelo. Proverite konzolu za detalje.");
+        const failure = toError(error, 'speech', options.signal);
+        if (!isAbortError(failure)) console.error("Error streaming speech:", error);
+        throw failure;
+    } finally {
+        if (usage || received) reportUsage(options.onUsage, 'speech', usage, pcmSeconds(base64Length));
     }
+    if (!received) {
+        throw new ServiceError('invalidResponse', 'speech');
+    }
+}
+
+export const geminiProvider: SpeechProvider = {
+    id: 'gemini',
+    models: MODELS,
+    transcribeAudio,
+    translateText,
+    generateSpeech,
+    generateSpeechStream,
 };
@@ -0,0 +1,165 @@
+import {
+  Language,
+  SerbianScript,
+  SpeechProvider,
+  Transcript,
+  TranscriptSegment,
+} from '../types';
+import { CHUNK_SAMPLE_RATE, LIVE_WINDOW_SECONDS } from '../constants';
+import {
+  decodeAudioToMono,
+  fileToBase64,
+  floatToInt16,
+  pcmToWavBlob,
+} from '../utils/audioUtils';
+import { joinSegmentTexts } from '../utils/subtitleUtils';
+import { isAbortError } from '../utils/asyncUtils';
+
+export interface LiveTranscriptionOptions {
+  sourceLanguageCode?: string;
+  serbianScript?: SerbianScript;
+  // Keeps a running translation into this language when set.
+  translateTo?: Language | null;
+  onUpdate: (update: LiveTranscriptionUpdate) => void;
+}
+
+export interface LiveTranscriptionUpdate {
+  // Provisional; replaced by a full transcription when recording stops.
+  transcript: Transcript;
+  translation: { text: string; segments: TranscriptSegment[] } | null;
+  // Last window failure, or null. Later windows retry the same audio.
+  error: unknown;
+}
+
+export interface LiveTranscriber {
+  // Takes each recorder timeslice; slices must arrive in recording order.
+  push: (data: Blob) => void;
+  stop: () => void;
+}
+
+// Windows are diarized independently, so speaker labels are dropped until the
+// final transcription.
+const shift = (segments: TranscriptSegment[], offset: number) =>
+  segments.map(({ start, end, text }) => ({
+    start: start + offset,
+    end: end + offset,
+    text,
+  }));
+
+// Transcribes a recording while it is made. Recorder slices are only
+// decodable together with the first one, so each update decodes everything
+// so far but sends only the window since the last committed segment. Updates
+// are skipped while one is in flight, so slow responses just mean coarser
+// updates.
+export const createLiveTranscriber = (
+  provider: SpeechProvider,
+  {
+    sourceLanguageCode,
+    serbianScript,
+    translateTo,
+    onUpdate,
+  }: LiveTranscriptionOptions
+): LiveTranscriber => {
+  const slices: Blob[] = [];
+  let windowStart = 0;
+  let languageCode = sourceLanguageCode;
+  let committed: TranscriptSegment[] = [];
+  let committedTranslation: TranscriptSegment[] = [];
+  let latest: LiveTranscriptionUpdate | null = null;
+  let busy = false;
+  let stopped = false;
+  // Cancels the request in flight when recording stops.
+  const controller = new AbortController();
+
+  const update = async () => {
+    busy = true;
+    try {
+      const recording = new Blob(slices, { type: slices[0].type });
+      const samples = await decodeAudioToMono(recording, CHUNK_SAMPLE_RATE);
+      const duration = samples.length / CHUNK_SAMPLE_RATE;
+      const window = samples.subarray(
+        Math.floor(windowStart * CHUNK_SAMPLE_RATE)
+      );
+      const wav = pcmToWavBlob(floatToInt16(window), CHUNK_SAMPLE_RATE, 1);
+      const result = await provider.transcribeAudio(
+        await fileToBase64(wav),
+        'audio/wav',
+        languageCode,
+        { signal: controller.signal, serbianScript }
+      );
+      // The first window settles the language for the rest of the recording.
+      languageCode = result.languageCode;
+      const pending = shift(result.segments, windowStart);
+
+      let pendingTranslation: TranscriptSegment[] = [];
+      if (translateTo && pending.length > 0) {
+        const [translation] = await provider.translateText(
+          { ...result, segments: pending },
+          [translateTo],
+          { signal: controller.signal }
+        );
+        pendingTranslation = translation?.segments ?? [];
+      }
+      if (stopped) return;
+
+      let shown = pending;
+      let shownTranslation = pendingTranslation;
+      // The last segment may be cut off mid-sentence, so it stays in the
+      // window; a window without segment breaks is committed whole.
+      if (duration - windowStart >= LIVE_WINDOW_SECONDS && pending.length > 0) {
+        const keep = pending.length > 1 ? 1 : 0;
+        committed = [...committed, ...pending.slice(0, pending.length - keep)];
+        committedTranslation = [
+          ...committedTranslation,
+          ...pendingTranslation.slice(0, pending.length - keep),
+        ];
+        shown = pending.slice(pending.length - keep);
+        shownTranslation = pendingTranslation.slice(pending.length - keep);
+        windowStart = keep ? shown[0].start : duration;
+      }
+
+      const segments = [...committed, ...shown];
+      const translationSegments = [...committedTranslation, ...shownTranslation];
+      latest = {
+        transcript: {
+          text: joinSegmentTexts(segments.map((segment) => segment.text)),
+          segments,
+          speakers: [],
+          languageCode: result.languageCode,
+        },
+        translation: translateTo
+          ? {
+              text: joinSegmentTexts(
+                translationSegments.map((segment) => segment.text)
+              ),
+              segments: translationSegments,
+            }
+          : null,
+        error: null,
+      };
+      onUpdate(latest);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.warn('Live transcription window failed:', error);
+      // Keeps what is already on screen; the next slice retries the window.
+      if (!stopped && latest) {
+        onUpdate({ ...latest, error });
+      }
+    } finally {
+      busy = false;
+    }
+  };
+
+  const push = (data: Blob) => {
+    if (stopped || data.size === 0) return;
+    slices.push(data);
+    if (!busy) update();
+  };
+
+  const stop = () => {
+    stopped = true;
+    controller.abort();
+  };
+
+  return { push, stop };
+};
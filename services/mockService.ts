@@ -0,0 +1,243 @@
+import {
+  Language,
+  Speaker,
+  SpeechOptions,
+  SpeechProvider,
+  Transcript,
+  TranscriptionOptions,
+  TranscriptSegment,
+  Translation,
+  TranslationOptions,
+} from '../types';
+import {
+  AUTO_DETECT_LANGUAGE,
+  DEFAULT_VOICE,
+  TTS_SAMPLE_RATE,
+} from '../constants';
+import { encode } from '../utils/audioUtils';
+import { sleep } from '../utils/asyncUtils';
+import { alignSegments, joinSegmentTexts } from '../utils/subtitleUtils';
+import { defaultSpeakerName } from '../utils/speakerUtils';
+import { glossaryTermsFor, termPattern } from '../utils/glossary';
+import { transliterateText } from '../utils/serbianScript';
+import {
+  estimateSpeechUsage,
+  estimateTranscriptionUsage,
+  estimateTranslationUsage,
+} from './usageTracking';
+
+// Deterministic offline backend for development and demos. Every call
+// resolves after a short delay with canned data, so the whole
+// transcribe → translate → narrate flow works without network access.
+// Usage is reported from the estimates, at no cost, so the usage panel can be
+// tried out as well.
+
+const MOCK_MODEL = 'mock';
+const MOCK_DELAY_MS = 400;
+const MOCK_STREAM_CHUNK_SECONDS = 0.5;
+
+const MOCK_SPEAKERS: Speaker[] = [
+  { id: 'speaker-1', name: defaultSpeakerName(0) },
+  { id: 'speaker-2', name: defaultSpeakerName(1) },
+];
+
+const MOCK_SEGMENTS: TranscriptSegment[] = [
+  {
+    start: 0,
+    end: 2.4,
+    text: 'Dobar dan i dobro došli.',
+    speaker: 'speaker-1',
+  },
+  {
+    start: 2.6,
+    end: 7.8,
+    text: 'Ovo je probni snimak koji služi za demonstraciju aplikacije bez pristupa mreži.',
+    speaker: 'speaker-2',
+  },
+];
+
+const MOCK_TRANSLATIONS: Record<string, string[]> = {
+  en: [
+    'Good afternoon and welcome.',
+    'This is a test recording used to demonstrate the application without network access.',
+  ],
+  de: [
+    'Guten Tag und willkommen.',
+    'Dies ist eine Testaufnahme, die die Anwendung ohne Netzwerkzugang demonstriert.',
+  ],
+  fr: [
+    'Bonjour et bienvenue.',
+    "Ceci est un enregistrement de test qui sert à démontrer l'application sans accès au réseau.",
+  ],
+  es: [
+    'Buenas tardes y bienvenidos.',
+    'Esta es una grabación de prueba que sirve para demostrar la aplicación sin acceso a la red.',
+  ],
+  it: [
+    'Buongiorno e benvenuti.',
+    "Questa è una registrazione di prova che serve a dimostrare l'applicazione senza accesso alla rete.",
+  ],
+  hr: [
+    'Dobar dan i dobro došli.',
+    'Ovo je probna snimka koja služi za demonstraciju aplikacije bez pristupa mreži.',
+  ],
+};
+
+// Small stable string hash (FNV-1a) so the same text always yields the same tone.
+const hashText = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const mockSegmentTranslation = (
+  text: string,
+  index: number,
+  lang: Language
+): string => {
+  const canned = MOCK_TRANSLATIONS[lang.code];
+  if (canned && MOCK_SEGMENTS[index]?.text === text) {
+    return canned[index];
+  }
+  // Back-translations of canned output return the original segment.
+  if (
+    lang.code === 'sr' &&
+    Object.values(MOCK_TRANSLATIONS).some((texts) => texts[index] === text)
+  ) {
+    return MOCK_SEGMENTS[index].text;
+  }
+  return `[${lang.englishName}] ${text}`;
+};
+
+// Sine tone with short fades, roughly as long as reading the text aloud.
+const synthesizeTone = (text: string, seed: string): Int16Array => {
+  const seconds = Math.min(Math.max(text.length * 0.06, 1), 30);
+  const frequency = 220 + (hashText(seed) % 440);
+  const length = Math.floor(seconds * TTS_SAMPLE_RATE);
+  const fade = Math.floor(0.05 * TTS_SAMPLE_RATE);
+  const samples = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const envelope = Math.min(1, i / fade, (length - i) / fade);
+    samples[i] = Math.round(
+      Math.sin((2 * Math.PI * frequency * i) / TTS_SAMPLE_RATE) *
+        envelope *
+        0.3 *
+        32767
+    );
+  }
+  return samples;
+};
+
+export const transcribeAudio = async (
+  _audioBase64: string,
+  _mimeType: string,
+  sourceLanguageCode: string = AUTO_DETECT_LANGUAGE,
+  { signal, serbianScript, onUsage }: TranscriptionOptions = {}
+): Promise<Transcript> => {
+  await sleep(MOCK_DELAY_MS, signal);
+  onUsage?.(
+    estimateTranscriptionUsage(
+      MOCK_MODEL,
+      MOCK_SEGMENTS[MOCK_SEGMENTS.length - 1].end
+    )
+  );
+  const detect = sourceLanguageCode === AUTO_DETECT_LANGUAGE;
+  const transcript: Transcript = {
+    text: joinSegmentTexts(MOCK_SEGMENTS.map((segment) => segment.text)),
+    segments: MOCK_SEGMENTS,
+    speakers: MOCK_SPEAKERS,
+    languageCode: detect ? 'sr' : sourceLanguageCode,
+    languageConfidence: detect ? 0.97 : undefined,
+  };
+  return serbianScript && transcript.languageCode === 'sr'
+    ? transliterateText(transcript, serbianScript)
+    : transcript;
+};
+
+export const translateText = async (
+  source: Transcript,
+  targetLanguages: Language[],
+  { glossary = [], signal, onUsage }: TranslationOptions = {}
+): Promise<Translation[]> => {
+  await sleep(MOCK_DELAY_MS, signal);
+  onUsage?.(
+    estimateTranslationUsage(MOCK_MODEL, source.text, targetLanguages.length)
+  );
+  const sourceTexts =
+    source.segments.length > 0
+      ? source.segments.map((segment) => segment.text)
+      : [source.text];
+  return targetLanguages.map((lang) => {
+    // Glossary terms left in the output are swapped for their renderings.
+    const terms = glossaryTermsFor(glossary, lang.code);
+    const texts = sourceTexts.map((text, i) =>
+      terms.reduce(
+        (result, { term, target }) =>
+          result.replace(termPattern(term, 'giu'), target),
+        mockSegmentTranslation(text, i, lang)
+      )
+    );
+    return {
+      languageCode: lang.code,
+      languageName: lang.name,
+      text: joinSegmentTexts(texts),
+      segments: alignSegments(source.segments, texts),
+    };
+  });
+};
+
+// Include the voices in the seed so each voice gets its own pitch.
+const toneFor = (text: string, options: SpeechOptions) => {
+  const voices = options.speakerVoices?.map((sv) => sv.voiceName).join('+');
+  const tone = synthesizeTone(
+    text,
+    `${voices || options.voiceName || DEFAULT_VOICE}:${text}`
+  );
+  options.onUsage?.({
+    ...estimateSpeechUsage(MOCK_MODEL, text),
+    audioSeconds: tone.length / TTS_SAMPLE_RATE,
+  });
+  return tone;
+};
+
+export const generateSpeech = async (
+  text: string,
+  options: SpeechOptions = {}
+): Promise<string> => {
+  await sleep(MOCK_DELAY_MS, options.signal);
+  const pcm = toneFor(text, options);
+  return encode(new Uint8Array(pcm.buffer));
+};
+
+// Delivers the same tone as `generateSpeech` in half-second pieces, paced
+// at twice real-time speed, like a streaming TTS response.
+export async function* generateSpeechStream(
+  text: string,
+  options: SpeechOptions = {}
+): AsyncGenerator<string> {
+  await sleep(MOCK_DELAY_MS, options.signal);
+  const pcm = toneFor(text, options);
+  const piece = Math.floor(MOCK_STREAM_CHUNK_SECONDS * TTS_SAMPLE_RATE);
+  for (let offset = 0; offset < pcm.length; offset += piece) {
+    if (offset > 0) {
+      await sleep((MOCK_STREAM_CHUNK_SECONDS * 1000) / 2, options.signal);
+    }
+    yield encode(new Uint8Array(pcm.slice(offset, offset + piece).buffer));
+  }
+}
+
+export const mockProvider: SpeechProvider = {
+  id: 'mock',
+  models: {
+    transcription: MOCK_MODEL,
+    translation: MOCK_MODEL,
+    speech: MOCK_MODEL,
+  },
+  transcribeAudio,
+  translateText,
+  generateSpeech,
+  generateSpeechStream,
+};
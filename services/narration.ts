@@ -0,0 +1,145 @@
+import {
+  RequestOptions,
+  SpeakerVoice,
+  SpeechOptions,
+  SpeechProvider,
+  TranscriptSegment,
+} from '../types';
+import {
+  MAX_TTS_SPEAKERS,
+  SPEAKER_TURN_PAUSE_SECONDS,
+  TTS_SAMPLE_RATE,
+} from '../constants';
+import {
+  concatPcm,
+  convertUint8ArrayToInt16Array,
+  decodeBase64,
+} from '../utils/audioUtils';
+import { speakersInSegments, toSpeakerTurns } from '../utils/speakerUtils';
+import { isAbortError } from '../utils/asyncUtils';
+
+export interface NarrationRequest extends RequestOptions {
+  text: string;
+  segments: TranscriptSegment[];
+  voiceName: string;
+  style?: string;
+  // Speaker id → voice name; speakers without an entry use `voiceName`.
+  speakerVoices?: Record<string, string>;
+}
+
+// Receives narration PCM in playback order while it is generated.
+export type PcmChunkHandler = (pcm: Int16Array) => void;
+
+const toPcm = (base64: string) =>
+  convertUint8ArrayToInt16Array(decodeBase64(base64));
+
+// Reads one TTS request. With `onChunk`, audio is streamed when the provider
+// supports it; otherwise, or if the stream fails before any audio arrives,
+// the whole clip is generated at once and handed over as a single chunk.
+const speak = async (
+  provider: SpeechProvider,
+  text: string,
+  options: SpeechOptions,
+  onChunk?: PcmChunkHandler
+): Promise<Int16Array> => {
+  if (onChunk && provider.generateSpeechStream) {
+    const parts: Int16Array[] = [];
+    // Stream pieces aren't guaranteed to end on a sample boundary.
+    let carry: number | null = null;
+    try {
+      for await (const base64 of provider.generateSpeechStream(text, options)) {
+        let bytes = decodeBase64(base64);
+        if (carry !== null) {
+          const joined = new Uint8Array(bytes.length + 1);
+          joined[0] = carry;
+          joined.set(bytes, 1);
+          bytes = joined;
+          carry = null;
+        }
+        if (bytes.length % 2 === 1) {
+          carry = bytes[bytes.length - 1];
+          bytes = bytes.slice(0, -1);
+        }
+        if (bytes.length === 0) continue;
+        const pcm = convertUint8ArrayToInt16Array(bytes);
+        parts.push(pcm);
+        onChunk(pcm);
+      }
+      return concatPcm(parts);
+    } catch (error) {
+      if (parts.length > 0 || isAbortError(error)) throw error;
+      console.warn('Streaming speech failed, generating in one piece:', error);
+    }
+  }
+  const pcm = toPcm(await provider.generateSpeech(text, options));
+  onChunk?.(pcm);
+  return pcm;
+};
+
+// Narrates a translation, giving each diarized speaker their own voice. Up to
+// MAX_TTS_SPEAKERS fit in one multi-speaker request; larger panels are read
+// turn by turn and joined with short pauses. `onChunk` receives the audio as
+// it is generated, pauses included, for playback before narration finishes.
+export const generateNarration = async (
+  provider: SpeechProvider,
+  {
+    text,
+    segments,
+    voiceName,
+    style,
+    speakerVoices = {},
+    ...requestOptions
+  }: NarrationRequest,
+  onChunk?: PcmChunkHandler
+): Promise<Int16Array> => {
+  const speakerIds = speakersInSegments(segments);
+  if (speakerIds.length < 2) {
+    return speak(
+      provider,
+      text,
+      { voiceName, style, ...requestOptions },
+      onChunk
+    );
+  }
+
+  const voiceFor = (id?: string) => (id && speakerVoices[id]) || voiceName;
+  const turns = toSpeakerTurns(segments);
+
+  if (speakerIds.length <= MAX_TTS_SPEAKERS) {
+    // Neutral labels keep the dialogue parseable whatever the display names are.
+    const labels = new Map(speakerIds.map((id, i) => [id, `Speaker${i + 1}`]));
+    const voices: SpeakerVoice[] = speakerIds.map((id) => ({
+      speaker: labels.get(id)!,
+      voiceName: voiceFor(id),
+    }));
+    const dialogue = turns
+      .map((turn) => `${labels.get(turn.speaker!) ?? 'Speaker1'}: ${turn.text}`)
+      .join('\n');
+    return speak(
+      provider,
+      dialogue,
+      { style, speakerVoices: voices, ...requestOptions },
+      onChunk
+    );
+  }
+
+  const pause = new Int16Array(
+    Math.round(SPEAKER_TURN_PAUSE_SECONDS * TTS_SAMPLE_RATE)
+  );
+  const parts: Int16Array[] = [];
+  for (const turn of turns) {
+    if (parts.length > 0) {
+      onChunk?.(pause);
+      parts.push(pause);
+    }
+    parts.push(
+      await speak(
+        provider,
+        turn.text,
+        { voiceName: voiceFor(turn.speaker), style, ...requestOptions },
+        onChunk
+      )
+    );
+  }
+  return concatPcm(parts);
+};
@@ -0,0 +1,234 @@
+import {
+  NarrationTake,
+  ProjectSnapshot,
+  ProjectSummary,
+  StorageUsage,
+} from '../types';
+import { LocalizedError } from './serviceErrors';
+
+// Projects are kept in IndexedDB: one record per project without audio, plus
+// audio blobs in their own store so listing projects stays cheap.
+
+const DB_NAME = 'audio-prevodilac';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const BLOBS_STORE = 'blobs';
+
+type StoredTake = Omit<NarrationTake, 'audio'> & { blobKey: string };
+
+interface StoredProject
+  extends Omit<ProjectSnapshot, 'audioFile' | 'narrations'> {
+  audio: { name: string; type: string; blobKey: string } | null;
+  narrations: Record<string, StoredTake[]>;
+  sizeBytes: number;
+}
+
+interface StoredBlob {
+  key: string;
+  projectId: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        db.createObjectStore(BLOBS_STORE, { keyPath: 'key' }).createIndex(
+          'projectId',
+          'projectId'
+        );
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+const toSummary = (project: StoredProject): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt,
+  languageCodes: project.translations.map((t) => t.languageCode),
+  sizeBytes: project.sizeBytes,
+});
+
+export const createProjectId = () =>
+  `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usedBytes: usage, quotaBytes: quota };
+};
+
+// Asks the browser not to evict our data under storage pressure.
+export const requestPersistentStorage = async () => {
+  try {
+    await navigator.storage?.persist?.();
+  } catch (error) {
+    console.warn('Persistent storage request failed:', error);
+  }
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS_STORE, 'readonly');
+  const projects = await requestToPromise<StoredProject[]>(
+    tx.objectStore(PROJECTS_STORE).getAll()
+  );
+  return projects.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Saves the project record and any audio blobs not stored yet; blobs that the
+// project no longer references are removed.
+export const saveProject = async (snapshot: ProjectSnapshot): Promise<void> => {
+  const blobs = new Map<string, Blob>();
+  const audioKey = `${snapshot.id}:audio`;
+  if (snapshot.audioFile) blobs.set(audioKey, snapshot.audioFile);
+
+  const narrations: Record<string, StoredTake[]> = {};
+  for (const [code, takes] of Object.entries(snapshot.narrations)) {
+    narrations[code] = takes.map(({ audio, ...take }) => {
+      const blobKey = `${snapshot.id}:take:${take.id}`;
+      blobs.set(blobKey, audio.blob);
+      return { ...take, blobKey };
+    });
+  }
+
+  const { audioFile, narrations: _narrations, ...data } = snapshot;
+  const record: Omit<StoredProject, 'sizeBytes'> = {
+    ...data,
+    audio: audioFile
+      ? { name: audioFile.name, type: audioFile.type, blobKey: audioKey }
+      : null,
+    narrations,
+  };
+  const recordJson = JSON.stringify(record);
+  const blobBytes = [...blobs.values()].reduce((sum, b) => sum + b.size, 0);
+  const stored: StoredProject = {
+    ...record,
+    sizeBytes: recordJson.length * 2 + blobBytes,
+  };
+
+  const db = await openDb();
+  const existingKeys = await requestToPromise<IDBValidKey[]>(
+    db
+      .transaction(BLOBS_STORE, 'readonly')
+      .objectStore(BLOBS_STORE)
+      .index('projectId')
+      .getAllKeys(snapshot.id)
+  );
+  const newBlobs = [...blobs].filter(([key]) => !existingKeys.includes(key));
+
+  const usage = await getStorageUsage();
+  const newBytes = newBlobs.reduce((sum, [, blob]) => sum + blob.size, 0);
+  if (
+    usage &&
+    usage.quotaBytes > 0 &&
+    usage.usedBytes + newBytes > usage.quotaBytes
+  ) {
+    throw new LocalizedError('projects.quota');
+  }
+
+  try {
+    const tx = db.transaction([PROJECTS_STORE, BLOBS_STORE], 'readwrite');
+    const blobStore = tx.objectStore(BLOBS_STORE);
+    for (const [key, blob] of newBlobs) {
+      const entry: StoredBlob = { key, projectId: snapshot.id, blob };
+      blobStore.put(entry);
+    }
+    for (const key of existingKeys) {
+      if (!blobs.has(key as string)) blobStore.delete(key);
+    }
+    tx.objectStore(PROJECTS_STORE).put(stored);
+    await transactionDone(tx);
+  } catch (error) {
+    console.error('Error saving project:', error);
+    if (isQuotaError(error)) throw new LocalizedError('projects.quota');
+    throw new LocalizedError('projects.saveFailed');
+  }
+};
+
+export const loadProject = async (id: string): Promise<ProjectSnapshot> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, BLOBS_STORE], 'readonly');
+  const project = await requestToPromise<StoredProject | undefined>(
+    tx.objectStore(PROJECTS_STORE).get(id)
+  );
+  if (!project) {
+    throw new LocalizedError('projects.notFound');
+  }
+  const storedBlobs = await requestToPromise<StoredBlob[]>(
+    tx.objectStore(BLOBS_STORE).index('projectId').getAll(id)
+  );
+  const blobByKey = new Map(storedBlobs.map((b) => [b.key, b.blob]));
+
+  const narrations: Record<string, NarrationTake[]> = {};
+  for (const [code, takes] of Object.entries(project.narrations)) {
+    narrations[code] = takes
+      .filter((take) => blobByKey.has(take.blobKey))
+      .map(({ blobKey, ...take }) => {
+        const blob = blobByKey.get(blobKey)!;
+        return { ...take, audio: { url: URL.createObjectURL(blob), blob } };
+      });
+  }
+
+  const audioBlob = project.audio && blobByKey.get(project.audio.blobKey);
+  const { audio, sizeBytes: _size, ...data } = project;
+  return {
+    ...data,
+    audioFile:
+      audio && audioBlob
+        ? new File([audioBlob], audio.name, { type: audio.type })
+        : null,
+    narrations,
+  };
+};
+
+export const renameProject = async (id: string, name: string) => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+  const store = tx.objectStore(PROJECTS_STORE);
+  const project = await requestToPromise<StoredProject | undefined>(
+    store.get(id)
+  );
+  if (project) {
+    store.put({ ...project, name });
+  }
+  await transactionDone(tx);
+};
+
+export const deleteProject = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, BLOBS_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).delete(id);
+  const blobStore = tx.objectStore(BLOBS_STORE);
+  const keys = await requestToPromise<IDBValidKey[]>(
+    blobStore.index('projectId').getAllKeys(id)
+  );
+  keys.forEach((key) => blobStore.delete(key));
+  await transactionDone(tx);
+};
@@ -0,0 +1,66 @@
+import {
+  QualityReport,
+  SpeechProvider,
+  Transcript,
+  Translation,
+} from '../types';
+import { findLanguage } from '../utils/languageUtils';
+import {
+  detectWrongLanguage,
+  lengthRatios,
+  textSimilarity,
+  untranslatedSegments,
+} from '../utils/qualityMetrics';
+import { LocalizedError } from './serviceErrors';
+
+const segmentTexts = (text: string, segments: { text: string }[]) =>
+  segments.length > 0 ? segments.map((segment) => segment.text) : [text];
+
+// Translates `translation` back into the source language and compares it,
+// along with length and language checks that need no request.
+export const runQualityCheck = async (
+  provider: SpeechProvider,
+  source: Transcript,
+  translation: Translation,
+  signal?: AbortSignal
+): Promise<QualityReport> => {
+  const sourceLanguage = findLanguage(source.languageCode) ?? {
+    code: source.languageCode,
+    name: source.languageCode,
+    englishName: source.languageCode,
+  };
+  const [back] = await provider.translateText(
+    {
+      text: translation.text,
+      segments: translation.segments,
+      speakers: [],
+      languageCode: translation.languageCode,
+    },
+    [sourceLanguage],
+    { signal }
+  );
+  if (!back) {
+    throw new LocalizedError('quality.noBackTranslation');
+  }
+
+  const sourceTexts = segmentTexts(source.text, source.segments);
+  const translatedTexts = segmentTexts(translation.text, translation.segments);
+  const backTexts = segmentTexts(back.text, back.segments);
+  const { ratio, outliers } = lengthRatios(sourceTexts, translatedTexts);
+
+  return {
+    checkedText: translation.text,
+    backTranslation: backTexts,
+    similarity: textSimilarity(source.text, back.text),
+    lengthRatio: ratio,
+    lengthOutliers: outliers,
+    untranslatedSegments:
+      source.languageCode === translation.languageCode
+        ? []
+        : untranslatedSegments(sourceTexts, translatedTexts),
+    wrongLanguage: detectWrongLanguage(
+      translation.text,
+      translation.languageCode
+    ),
+  };
+};
@@ -0,0 +1,328 @@
+import {
+  CacheHit,
+  Language,
+  RequestOptions,
+  SpeechOptions,
+  SpeechProvider,
+  Translation,
+} from '../types';
+import {
+  AUTO_DETECT_LANGUAGE,
+  DEFAULT_VOICE,
+  RESULT_CACHE_MAX_BYTES,
+  RESULT_CACHE_MAX_ENTRIES,
+} from '../constants';
+import { decodeBase64, encode } from '../utils/audioUtils';
+import { glossaryTermsFor } from '../utils/glossary';
+import { alignSegments, joinSegmentTexts } from '../utils/subtitleUtils';
+
+// Provider results are kept in IndexedDB under a SHA-256 of everything that
+// determines them (input, languages, model, voice), so repeating the same
+// work doesn't cost another request. Sizes and access times live in their
+// own store so eviction never has to load the results themselves.
+
+const DB_NAME = 'audio-prevodilac-cache';
+const DB_VERSION = 1;
+const VALUES_STORE = 'values';
+const USAGE_STORE = 'usage';
+
+interface UsageRecord {
+  key: string;
+  sizeBytes: number;
+  lastUsed: number;
+}
+
+// Translations are stored as segment texts and re-timed on use, so editing
+// segment timing doesn't invalidate them.
+interface CachedTranslation {
+  languageName: string;
+  texts: string[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(VALUES_STORE);
+        db.createObjectStore(USAGE_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+// Null when hashing isn't available (e.g. outside a secure context); such
+// requests simply bypass the cache.
+const hashKey = async (parts: unknown[]): Promise<string | null> => {
+  try {
+    const bytes = new TextEncoder().encode(JSON.stringify(parts));
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest), (byte) =>
+      byte.toString(16).padStart(2, '0')
+    ).join('');
+  } catch (error) {
+    console.warn('Result cache key could not be computed:', error);
+    return null;
+  }
+};
+
+// Cache failures never fail a request; a broken cache only misses.
+const readEntry = async <T>(key: string): Promise<T | undefined> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([VALUES_STORE, USAGE_STORE], 'readwrite');
+    const value = await requestToPromise<T | undefined>(
+      tx.objectStore(VALUES_STORE).get(key)
+    );
+    if (value === undefined) return undefined;
+    const usage = tx.objectStore(USAGE_STORE);
+    const record = await requestToPromise<UsageRecord | undefined>(
+      usage.get(key)
+    );
+    if (record) usage.put({ ...record, lastUsed: Date.now() });
+    await transactionDone(tx);
+    return value;
+  } catch (error) {
+    console.warn('Result cache read failed:', error);
+    return undefined;
+  }
+};
+
+// Drops least recently used entries until both limits hold.
+const evict = async (db: IDBDatabase) => {
+  const tx = db.transaction([VALUES_STORE, USAGE_STORE], 'readwrite');
+  const usage = tx.objectStore(USAGE_STORE);
+  const records = await requestToPromise<UsageRecord[]>(usage.getAll());
+  records.sort((a, b) => b.lastUsed - a.lastUsed);
+  let totalBytes = 0;
+  records.forEach((record, i) => {
+    totalBytes += record.sizeBytes;
+    if (i >= RESULT_CACHE_MAX_ENTRIES || totalBytes > RESULT_CACHE_MAX_BYTES) {
+      usage.delete(record.key);
+      tx.objectStore(VALUES_STORE).delete(record.key);
+    }
+  });
+  await transactionDone(tx);
+};
+
+const writeEntry = async (key: string, value: unknown) => {
+  try {
+    const sizeBytes = JSON.stringify(value).length * 2;
+    if (sizeBytes > RESULT_CACHE_MAX_BYTES) return;
+    const db = await openDb();
+    const tx = db.transaction([VALUES_STORE, USAGE_STORE], 'readwrite');
+    tx.objectStore(VALUES_STORE).put(value, key);
+    const record: UsageRecord = { key, sizeBytes, lastUsed: Date.now() };
+    tx.objectStore(USAGE_STORE).put(record);
+    await transactionDone(tx);
+    await evict(db);
+  } catch (error) {
+    console.warn('Result cache write failed:', error);
+  }
+};
+
+// Serves `parts` from the cache unless `forceRefresh` is set; otherwise runs
+// `compute` and stores its result without waiting for the write.
+const throughCache = async <T>(
+  parts: unknown[],
+  options: RequestOptions,
+  hit: CacheHit,
+  compute: () => Promise<T>
+): Promise<T> => {
+  const key = await hashKey(parts);
+  if (key && !options.forceRefresh) {
+    const cached = await readEntry<T>(key);
+    if (cached !== undefined) {
+      options.onCacheHit?.(hit);
+      return cached;
+    }
+  }
+  const value = await compute();
+  if (key) writeEntry(key, value);
+  return value;
+};
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+// Wraps a provider so transcriptions, translations (per target language) and
+// speech are answered from the cache when the same request was made before.
+export const withResultCache = (provider: SpeechProvider): SpeechProvider => {
+  const { id, models } = provider;
+
+  const transcribeAudio: SpeechProvider['transcribeAudio'] = (
+    audioBase64,
+    mimeType,
+    sourceLanguageCode = AUTO_DETECT_LANGUAGE,
+    options = {}
+  ) =>
+    throughCache(
+      [
+        'transcription',
+        id,
+        models.transcription,
+        sourceLanguageCode,
+        options.serbianScript ?? '',
+        mimeType,
+        audioBase64,
+      ],
+      options,
+      { operation: 'transcription' },
+      () =>
+        provider.transcribeAudio(
+          audioBase64,
+          mimeType,
+          sourceLanguageCode,
+          options
+        )
+    );
+
+  // Each language is looked up on its own; only the misses are requested.
+  const translateText: SpeechProvider['translateText'] = async (
+    source,
+    targetLanguages,
+    options = {}
+  ) => {
+    const texts =
+      source.segments.length > 0
+        ? source.segments.map((segment) => segment.text)
+        : [source.text];
+    const keys = await Promise.all(
+      targetLanguages.map((lang) =>
+        hashKey([
+          'translation',
+          id,
+          models.translation,
+          source.languageCode,
+          lang.code,
+          glossaryTermsFor(options.glossary ?? [], lang.code),
+          texts,
+        ])
+      )
+    );
+
+    const cached: Translation[] = [];
+    if (!options.forceRefresh) {
+      for (const [i, lang] of targetLanguages.entries()) {
+        const key = keys[i];
+        const entry = key && (await readEntry<CachedTranslation>(key));
+        if (!entry) continue;
+        cached.push({
+          languageCode: lang.code,
+          languageName: entry.languageName,
+          text: joinSegmentTexts(entry.texts),
+          segments: alignSegments(source.segments, entry.texts),
+        });
+        options.onCacheHit?.({
+          operation: 'translation',
+          languageCode: lang.code,
+        });
+      }
+    }
+
+    const missing: Language[] = targetLanguages.filter(
+      (lang) => !cached.some((t) => t.languageCode === lang.code)
+    );
+    if (missing.length === 0) return cached;
+    const fresh = await provider.translateText(source, missing, options);
+    for (const translation of fresh) {
+      const key = keys[
+        targetLanguages.findIndex((l) => l.code === translation.languageCode)
+      ];
+      // Incomplete translations are left for the batcher to retry.
+      const complete =
+        translation.text.trim().length > 0 &&
+        (source.segments.length === 0 ||
+          translation.segments.length === source.segments.length);
+      if (key && complete) {
+        const entry: CachedTranslation = {
+          languageName: translation.languageName,
+          texts:
+            source.segments.length > 0
+              ? translation.segments.map((segment) => segment.text)
+              : [translation.text],
+        };
+        writeEntry(key, entry);
+      }
+    }
+    return [...cached, ...fresh];
+  };
+
+  const speechParts = (text: string, options: SpeechOptions) => [
+    'speech',
+    id,
+    models.speech,
+    text,
+    options.voiceName ?? DEFAULT_VOICE,
+    options.style ?? '',
+    options.speakerVoices ?? [],
+  ];
+
+  const generateSpeech: SpeechProvider['generateSpeech'] = (
+    text,
+    options = {}
+  ) =>
+    throughCache(
+      speechParts(text, options),
+      options,
+      { operation: 'speech' },
+      () => provider.generateSpeech(text, options)
+    );
+
+  // Shares entries with `generateSpeech`; a hit arrives as a single piece.
+  const stream = provider.generateSpeechStream;
+  const generateSpeechStream = stream
+    ? async function* (text: string, options: SpeechOptions = {}) {
+        const key = await hashKey(speechParts(text, options));
+        if (key && !options.forceRefresh) {
+          const cached = await readEntry<string>(key);
+          if (cached !== undefined) {
+            options.onCacheHit?.({ operation: 'speech' });
+            yield cached;
+            return;
+          }
+        }
+        const pieces: Uint8Array[] = [];
+        for await (const base64 of stream(text, options)) {
+          pieces.push(decodeBase64(base64));
+          yield base64;
+        }
+        if (key) writeEntry(key, encode(concatBytes(pieces)));
+      }
+    : undefined;
+
+  return {
+    id,
+    models,
+    transcribeAudio,
+    translateText,
+    generateSpeech,
+    generateSpeechStream,
+  };
+};
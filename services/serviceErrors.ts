@@ -0,0 +1,139 @@
+import { ServiceOperation } from '../types';
+import { isAbortError } from '../utils/asyncUtils';
+import {
+  defaultTranslate,
+  MessageKey,
+  MessageParams,
+  Translate,
+} from '../i18n';
+
+// What went wrong, as far as the user can act on it.
+export type ServiceErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rateLimit'
+  | 'unsupportedAudio'
+  | 'invalidRequest'
+  | 'network'
+  | 'server'
+  | 'invalidResponse'
+  | 'unknown';
+
+// A failed provider call. `message` is in the default UI language; the UI
+// shows `describeError` instead. The original error is kept as `cause`.
+export class ServiceError extends Error {
+  readonly kind: ServiceErrorKind;
+  readonly operation: ServiceOperation;
+  readonly status?: number;
+  readonly cause?: unknown;
+
+  constructor(
+    kind: ServiceErrorKind,
+    operation: ServiceOperation,
+    { status, cause }: { status?: number; cause?: unknown } = {}
+  ) {
+    super(messageFor(kind, operation, defaultTranslate));
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.operation = operation;
+    this.status = status;
+    this.cause = cause;
+  }
+
+  // Worth trying the same request again after a pause.
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+// A failure that isn't a provider call, such as a rejected import, with its
+// message as a catalog key. `message` is in the default UI language; the UI
+// shows `describeError` instead.
+export class LocalizedError extends Error {
+  readonly key: MessageKey;
+  readonly params?: MessageParams;
+
+  constructor(key: MessageKey, params?: MessageParams) {
+    super(defaultTranslate(key, params));
+    this.name = 'LocalizedError';
+    this.key = key;
+    this.params = params;
+  }
+}
+
+// Failed operation, then what the user can do about it.
+const messageFor = (
+  kind: ServiceErrorKind,
+  operation: ServiceOperation,
+  t: Translate
+) => `${t(`service.${operation}`)} ${t(`service.${kind}`)}`;
+
+const RETRYABLE_KINDS: ServiceErrorKind[] = [
+  'rateLimit',
+  'network',
+  'server',
+  'invalidResponse',
+];
+
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+const classify = (error: unknown, status?: number): ServiceErrorKind => {
+  const message = error instanceof Error ? error.message : String(error);
+  if (status === 401 || status === 403 || /api[_ ]?key/i.test(message)) {
+    return 'auth';
+  }
+  if (status === 429) {
+    // Rate limits and exhausted quotas share the status code; only the
+    // latter mentions billing or a daily limit.
+    return /billing|per day|daily|quota exceeded/i.test(message)
+      ? 'quota'
+      : 'rateLimit';
+  }
+  if (status === 400 || status === 413 || status === 415) {
+    return /audio|mime|media|unsupported/i.test(message)
+      ? 'unsupportedAudio'
+      : 'invalidRequest';
+  }
+  if (status !== undefined && status >= 500) return 'server';
+  if (status !== undefined) return 'invalidRequest';
+  if (error instanceof SyntaxError) return 'invalidResponse';
+  if (/failed to fetch|network|ECONNRESET|ETIMEDOUT|socket/i.test(message)) {
+    return 'network';
+  }
+  return 'unknown';
+};
+
+// Wraps any failure from a provider call. Aborts pass through unchanged so
+// callers can tell cancellation apart from failure.
+export const toServiceError = (
+  error: unknown,
+  operation: ServiceOperation
+): unknown => {
+  if (error instanceof ServiceError || isAbortError(error)) return error;
+  const status = statusOf(error);
+  return new ServiceError(classify(error, status), operation, {
+    status,
+    cause: error,
+  });
+};
+
+export const isRetryableError = (error: unknown) =>
+  error instanceof ServiceError && error.retryable;
+
+// Message for the UI: service and localized errors in the UI language, the
+// error's own message otherwise, or `fallback`.
+export const describeError = (
+  error: unknown,
+  fallback: string,
+  t: Translate = defaultTranslate
+): string => {
+  if (error instanceof ServiceError) {
+    return messageFor(error.kind, error.operation, t);
+  }
+  if (error instanceof LocalizedError) return t(error.key, error.params);
+  if (error instanceof Error && error.message) return error.message;
+  return fallback;
+};
@@ -0,0 +1,280 @@
+import {
+  NarrationTake,
+  ProjectSnapshot,
+  SerbianScript,
+  ServiceOperation,
+  SpeechProvider,
+  SpeechProviderId,
+  Transcript,
+  Translation,
+} from '../types';
+import { createZip, readZip, ZipEntry } from '../utils/zip';
+import { toSrt, toVtt } from '../utils/subtitleUtils';
+import { transliterateText } from '../utils/serbianScript';
+import { createProjectId } from './projectStore';
+import { LocalizedError } from './serviceErrors';
+
+// A whole session in one ZIP: the recording, transcript, translations,
+// subtitles and narration takes, described by manifest.json. Importing a
+// bundle restores it as a new project.
+
+const BUNDLE_FORMAT = 'audio-prevodilac-session';
+const BUNDLE_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+const HISTORY_FILE = 'history.json';
+
+interface BundleTextFiles {
+  text: string;
+  json: string;
+  srt?: string;
+  vtt?: string;
+}
+
+interface BundleNarration extends Omit<NarrationTake, 'audio' | 'createdAt'> {
+  languageCode: string;
+  file: string;
+  createdAt: string;
+}
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: { name: string; createdAt: string; updatedAt: string };
+  provider: {
+    id: SpeechProviderId;
+    models: Record<ServiceOperation, string>;
+  };
+  // As chosen before transcription; AUTO_DETECT_LANGUAGE when detected.
+  sourceLanguageCode: string;
+  audio: { file: string; name: string; type: string; sizeBytes: number } | null;
+  transcript: {
+    languageCode: string;
+    languageConfidence?: number;
+    speakers: Transcript['speakers'];
+    files: BundleTextFiles;
+  } | null;
+  translations: {
+    languageCode: string;
+    languageName: string;
+    files: BundleTextFiles;
+  }[];
+  // Oldest take first within each language.
+  narrations: BundleNarration[];
+  history: string;
+}
+
+export interface BundleOptions {
+  provider: Pick<SpeechProvider, 'id' | 'models'>;
+  // Script for Serbian text and subtitle files; JSON keeps the stored text.
+  serbianScript?: SerbianScript;
+}
+
+// Keeps archive paths portable across file systems.
+const safeName = (name: string) =>
+  name.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '_').trim() || 'audio';
+
+const textEntries = (
+  base: string,
+  value: Transcript | Translation,
+  speakers: Transcript['speakers'],
+  languageCode: string,
+  serbianScript: SerbianScript | undefined,
+  modifiedAt: number
+): { files: BundleTextFiles; entries: ZipEntry[] } => {
+  const shown =
+    languageCode === 'sr' && serbianScript
+      ? transliterateText(value, serbianScript)
+      : value;
+  const files: BundleTextFiles = { text: `${base}.txt`, json: `${base}.json` };
+  const entries: ZipEntry[] = [
+    { name: files.text, data: `${shown.text}\n`, modifiedAt },
+    { name: files.json, data: JSON.stringify(value, null, 2), modifiedAt },
+  ];
+  if (value.segments.length > 0) {
+    files.srt = `${base}.srt`;
+    files.vtt = `${base}.vtt`;
+    entries.push(
+      { name: files.srt, data: toSrt(shown.segments, speakers), modifiedAt },
+      { name: files.vtt, data: toVtt(shown.segments, speakers), modifiedAt }
+    );
+  }
+  return { files, entries };
+};
+
+export const createSessionBundle = async (
+  snapshot: ProjectSnapshot,
+  { provider, serbianScript }: BundleOptions
+): Promise<Blob> => {
+  const { audioFile, transcription, updatedAt } = snapshot;
+  const speakers = transcription?.speakers ?? [];
+  const entries: ZipEntry[] = [];
+
+  const audio = audioFile && {
+    file: `audio/${safeName(audioFile.name)}`,
+    name: audioFile.name,
+    type: audioFile.type,
+    sizeBytes: audioFile.size,
+  };
+  if (audio && audioFile) {
+    entries.push({
+      name: audio.file,
+      data: audioFile,
+      modifiedAt: audioFile.lastModified,
+    });
+  }
+
+  let transcript: BundleManifest['transcript'] = null;
+  if (transcription) {
+    const text = textEntries(
+      'transcript',
+      transcription,
+      speakers,
+      transcription.languageCode,
+      serbianScript,
+      updatedAt
+    );
+    entries.push(...text.entries);
+    transcript = {
+      languageCode: transcription.languageCode,
+      languageConfidence: transcription.languageConfidence,
+      speakers,
+      files: text.files,
+    };
+  }
+
+  const translations = snapshot.translations.map((translation) => {
+    const text = textEntries(
+      `translations/${translation.languageCode}`,
+      translation,
+      speakers,
+      translation.languageCode,
+      serbianScript,
+      updatedAt
+    );
+    entries.push(...text.entries);
+    return {
+      languageCode: translation.languageCode,
+      languageName: translation.languageName,
+      files: text.files,
+    };
+  });
+
+  const narrations: BundleNarration[] = [];
+  for (const [languageCode, takes] of Object.entries(snapshot.narrations)) {
+    [...takes].reverse().forEach(({ audio: takeAudio, ...take }, i) => {
+      const file = `narrations/${languageCode}/${i + 1}-${safeName(
+        take.voiceName.replace(/ · | \+ /g, '-')
+      )}.wav`;
+      entries.push({
+        name: file,
+        data: takeAudio.blob,
+        modifiedAt: take.createdAt,
+      });
+      narrations.push({
+        ...take,
+        languageCode,
+        file,
+        createdAt: new Date(take.createdAt).toISOString(),
+      });
+    });
+  }
+
+  entries.push({
+    name: HISTORY_FILE,
+    data: JSON.stringify(snapshot.history, null, 2),
+    modifiedAt: updatedAt,
+  });
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: {
+      name: snapshot.name,
+      createdAt: new Date(snapshot.createdAt).toISOString(),
+      updatedAt: new Date(updatedAt).toISOString(),
+    },
+    provider: { id: provider.id, models: provider.models },
+    sourceLanguageCode: snapshot.sourceLanguageCode,
+    audio,
+    transcript,
+    translations,
+    narrations,
+    history: HISTORY_FILE,
+  };
+  // The manifest goes first so it is easy to find when browsing the archive.
+  return createZip([
+    { name: MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) },
+    ...entries,
+  ]);
+};
+
+// Restores a bundle as a new project with a fresh id.
+export const readSessionBundle = async (
+  file: Blob
+): Promise<ProjectSnapshot> => {
+  let files: Map<string, Blob>;
+  try {
+    files = await readZip(file);
+  } catch (error) {
+    console.error('Error reading bundle:', error);
+    throw new LocalizedError('bundle.invalid');
+  }
+
+  const read = (name: string): Blob => {
+    const entry = files.get(name);
+    if (!entry) throw new LocalizedError('bundle.missingEntry', { name });
+    return entry;
+  };
+  const readJson = async <T>(name: string): Promise<T> => {
+    try {
+      return JSON.parse(await read(name).text()) as T;
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error;
+      throw new LocalizedError('bundle.invalidJson', { name });
+    }
+  };
+
+  const manifest = await readJson<BundleManifest>(MANIFEST_FILE);
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new LocalizedError('bundle.invalid');
+  }
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new LocalizedError('bundle.newerVersion');
+  }
+
+  const narrations: ProjectSnapshot['narrations'] = {};
+  for (const { languageCode, file: takeFile, ...take } of manifest.narrations) {
+    const blob = read(takeFile);
+    // Takes are listed oldest first; the app keeps them newest first.
+    (narrations[languageCode] ??= []).unshift({
+      ...take,
+      createdAt: Date.parse(take.createdAt),
+      audio: { url: URL.createObjectURL(blob), blob },
+    });
+  }
+
+  return {
+    id: createProjectId(),
+    name: manifest.project.name,
+    createdAt: Date.parse(manifest.project.createdAt),
+    updatedAt: Date.now(),
+    sourceLanguageCode: manifest.sourceLanguageCode,
+    audioFile: manifest.audio
+      ? new File([read(manifest.audio.file)], manifest.audio.name, {
+          type: manifest.audio.type,
+        })
+      : null,
+    transcription: manifest.transcript
+      ? await readJson<Transcript>(manifest.transcript.files.json)
+      : null,
+    translations: await Promise.all(
+      manifest.translations.map((translation) =>
+        readJson<Translation>(translation.files.json)
+      )
+    ),
+    history: await readJson<ProjectSnapshot['history']>(manifest.history),
+    narrations,
+  };
+};
@@ -0,0 +1,26 @@
+import { SpeechProvider, SpeechProviderId } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockService';
+import { withResultCache } from './resultCache';
+import { withUsageTracking } from './usageTracking';
+import { recordUsage } from '../utils/usageStore';
+
+// Usage is tracked outside the cache, so only requests that reached the API
+// are counted.
+const PROVIDERS: Record<SpeechProviderId, SpeechProvider> = {
+  gemini: withUsageTracking(withResultCache(geminiProvider), recordUsage),
+  mock: withUsageTracking(withResultCache(mockProvider), recordUsage),
+};
+
+// SPEECH_PROVIDER selects the backend explicitly; without it we fall back to
+// the mock provider whenever no API key is configured.
+export const resolveProviderId = (): SpeechProviderId => {
+  const configured = process.env.SPEECH_PROVIDER;
+  if (configured && Object.hasOwn(PROVIDERS, configured)) {
+    return configured as SpeechProviderId;
+  }
+  return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+export const getSpeechProvider = (): SpeechProvider =>
+  PROVIDERS[resolveProviderId()];
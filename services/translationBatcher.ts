@@ -0,0 +1,90 @@
+import {
+  Language,
+  SpeechProvider,
+  Transcript,
+  Translation,
+  TranslationOptions,
+} from '../types';
+import { TRANSLATION_BATCH_SIZE, TRANSLATION_MAX_ATTEMPTS } from '../constants';
+import { isAbortError } from '../utils/asyncUtils';
+import { ServiceError } from './serviceErrors';
+
+export interface BatchTranslationResult {
+  // In the order of the requested languages.
+  translations: Translation[];
+  // Languages that were still missing or unusable after all attempts.
+  failed: Language[];
+}
+
+// A translation is usable when it has text and, for timed sources, kept every
+// segment boundary.
+const isUsable = (source: Transcript, translation?: Translation) =>
+  !!translation &&
+  translation.text.trim().length > 0 &&
+  (source.segments.length === 0 ||
+    translation.segments.length === source.segments.length);
+
+const toBatches = <T>(items: T[], size: number): T[][] => {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+};
+
+// Translates into all languages using as few requests as possible, then
+// retries only the languages the model skipped or garbled, or whose request
+// failed transiently, one at a time.
+export const translateInBatches = async (
+  provider: SpeechProvider,
+  source: Transcript,
+  languages: Language[],
+  options: TranslationOptions = {},
+  batchSize = TRANSLATION_BATCH_SIZE
+): Promise<BatchTranslationResult> => {
+  const results = new Map<string, Translation>();
+  let lastError: unknown = null;
+
+  const request = async (batch: Language[]) => {
+    try {
+      const translations = await provider.translateText(source, batch, options);
+      for (const translation of translations) {
+        const requested = batch.some(
+          (lang) => lang.code === translation.languageCode
+        );
+        if (requested && isUsable(source, translation)) {
+          results.set(translation.languageCode, translation);
+        }
+      }
+    } catch (error) {
+      // A bad key, an exhausted quota or a rejected request fails the same way
+      // for every language; retrying them one by one only multiplies calls.
+      if (isAbortError(error)) throw error;
+      if (error instanceof ServiceError && !error.retryable) throw error;
+      lastError = error;
+    }
+  };
+
+  for (const batch of toBatches(languages, batchSize)) {
+    await request(batch);
+  }
+
+  for (let attempt = 1; attempt < TRANSLATION_MAX_ATTEMPTS; attempt++) {
+    const missing = languages.filter((lang) => !results.has(lang.code));
+    if (missing.length === 0) break;
+    for (const lang of missing) {
+      await request([lang]);
+    }
+  }
+
+  if (results.size === 0 && lastError) {
+    throw lastError;
+  }
+
+  return {
+    translations: languages
+      .map((lang) => results.get(lang.code))
+      .filter((t): t is Translation => !!t),
+    failed: languages.filter((lang) => !results.has(lang.code)),
+  };
+};
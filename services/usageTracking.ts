@@ -0,0 +1,143 @@
+import { ModelPrice, SpeechProvider, UsageReport } from '../types';
+import {
+  AUDIO_TOKENS_PER_SECOND,
+  CHUNK_TARGET_SECONDS,
+  ESTIMATE_CHARS_PER_TOKEN,
+  ESTIMATE_PROMPT_TOKENS,
+  ESTIMATE_SPEECH_CHARS_PER_SECOND,
+  ESTIMATE_TRANSCRIPT_TOKENS_PER_SECOND,
+  TRANSLATION_BATCH_SIZE,
+} from '../constants';
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  audioSeconds: number;
+  costUsd: number;
+}
+
+export const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  audioSeconds: 0,
+  costUsd: 0,
+});
+
+export const estimateCost = (
+  usage: UsageReport,
+  prices: Record<string, ModelPrice>
+): number => {
+  const price = prices[usage.model];
+  if (!price) return 0;
+  const textTokens = Math.max(0, usage.inputTokens - usage.inputAudioTokens);
+  return (
+    (textTokens * price.input +
+      usage.inputAudioTokens * (price.inputAudio ?? price.input) +
+      usage.outputTokens * price.output) /
+    1_000_000
+  );
+};
+
+export const addUsage = (
+  totals: UsageTotals,
+  usage: UsageReport,
+  costUsd: number
+): UsageTotals => ({
+  calls: totals.calls + 1,
+  inputTokens: totals.inputTokens + usage.inputTokens,
+  outputTokens: totals.outputTokens + usage.outputTokens,
+  audioSeconds: totals.audioSeconds + usage.audioSeconds,
+  costUsd: totals.costUsd + costUsd,
+});
+
+const textTokens = (text: string) =>
+  Math.ceil(text.length / ESTIMATE_CHARS_PER_TOKEN);
+
+// Expected usage of an operation before it runs, for budget warnings. The
+// rates are rough averages; actual usage is recorded from the API responses.
+export const estimateTranscriptionUsage = (
+  model: string,
+  audioSeconds: number
+): UsageReport => {
+  const requests = Math.max(1, Math.ceil(audioSeconds / CHUNK_TARGET_SECONDS));
+  const inputAudioTokens = Math.ceil(audioSeconds * AUDIO_TOKENS_PER_SECOND);
+  return {
+    operation: 'transcription',
+    model,
+    inputTokens: inputAudioTokens + requests * ESTIMATE_PROMPT_TOKENS,
+    inputAudioTokens,
+    outputTokens: Math.ceil(
+      audioSeconds * ESTIMATE_TRANSCRIPT_TOKENS_PER_SECOND
+    ),
+    audioSeconds,
+  };
+};
+
+export const estimateTranslationUsage = (
+  model: string,
+  sourceText: string,
+  languageCount: number
+): UsageReport => {
+  const requests = Math.ceil(languageCount / TRANSLATION_BATCH_SIZE);
+  const tokens = textTokens(sourceText);
+  return {
+    operation: 'translation',
+    model,
+    inputTokens: requests * (tokens + ESTIMATE_PROMPT_TOKENS),
+    inputAudioTokens: 0,
+    outputTokens: tokens * languageCount,
+    audioSeconds: 0,
+  };
+};
+
+export const estimateSpeechUsage = (
+  model: string,
+  text: string
+): UsageReport => {
+  const audioSeconds = text.length / ESTIMATE_SPEECH_CHARS_PER_SECOND;
+  return {
+    operation: 'speech',
+    model,
+    inputTokens: textTokens(text),
+    inputAudioTokens: 0,
+    outputTokens: Math.ceil(audioSeconds * AUDIO_TOKENS_PER_SECOND),
+    audioSeconds,
+  };
+};
+
+// Passes every usage report of `provider` to `onUsage`, in addition to any
+// `onUsage` the caller set on the request.
+export const withUsageTracking = (
+  provider: SpeechProvider,
+  onUsage: (usage: UsageReport) => void
+): SpeechProvider => {
+  const track = <T extends { onUsage?: (usage: UsageReport) => void }>(
+    options: T = {} as T
+  ): T => ({
+    ...options,
+    onUsage: (usage: UsageReport) => {
+      onUsage(usage);
+      options.onUsage?.(usage);
+    },
+  });
+  const stream = provider.generateSpeechStream;
+
+  return {
+    ...provider,
+    transcribeAudio: (audioBase64, mimeType, sourceLanguageCode, options) =>
+      provider.transcribeAudio(
+        audioBase64,
+        mimeType,
+        sourceLanguageCode,
+        track(options)
+      ),
+    translateText: (source, targetLanguages, options) =>
+      provider.translateText(source, targetLanguages, track(options)),
+    generateSpeech: (text, options) =>
+      provider.generateSpeech(text, track(options)),
+    generateSpeechStream:
+      stream && ((text, options) => stream(text, track(options))),
+  };
+};
@@ -5,13 +5,299 @@ export interface Language {
   englishName: string;
 }
 
+// A timed piece of a transcript; times are in seconds from the start of the audio.
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  // Speaker id from Transcript.speakers; absent when not diarized.
+  speaker?: string;
+}
+
+export interface Speaker {
+  id: string;
+  // Editable display name, e.g. "Govornik 1" or the person's real name.
+  name: string;
+}
+
+export interface Transcript {
+  text: string;
+  // Empty when the source carries no timing information.
+  segments: TranscriptSegment[];
+  // Speakers referenced by the segments; empty when not diarized.
+  speakers: Speaker[];
+  // ISO 639-1 code of the spoken language.
+  languageCode: string;
+  // Detection confidence from 0 to 1; only set when the language was auto-detected.
+  languageConfidence?: number;
+}
+
 export interface Translation {
   languageCode: string;
   languageName: string;
   text: string;
+  // Same boundaries as the source transcript segments.
+  segments: TranscriptSegment[];
 }
 
 export interface AudioInfo {
   url: string;
   blob: Blob;
 }
+
+export interface Voice {
+  name: string;
+  description: string;
+}
+
+export type ServiceOperation = 'transcription' | 'translation' | 'speech';
+
+// A result served from the local result cache instead of the API.
+export interface CacheHit {
+  operation: ServiceOperation;
+  // Set for translations, which are cached one language at a time.
+  languageCode?: string;
+}
+
+// Per-call options shared by every provider method.
+export interface RequestOptions {
+  // Aborting rejects the call with an AbortError and stops further retries.
+  signal?: AbortSignal;
+  // Skips the cache lookup; the fresh result replaces the cached one.
+  forceRefresh?: boolean;
+  onCacheHit?: (hit: CacheHit) => void;
+  // Called once for every request the API billed; never for cache hits.
+  onUsage?: (usage: UsageReport) => void;
+}
+
+// Token counts of one API request, as reported by the provider.
+export interface UsageReport {
+  operation: ServiceOperation;
+  model: string;
+  inputTokens: number;
+  // The part of inputTokens that encodes audio, which is priced separately.
+  inputAudioTokens: number;
+  outputTokens: number;
+  // Audio sent for transcription or generated as speech, in seconds.
+  audioSeconds: number;
+}
+
+// API prices in USD per million tokens.
+export interface ModelPrice {
+  input: number;
+  // Audio input, when it costs more than text; defaults to `input`.
+  inputAudio?: number;
+  output: number;
+}
+
+export type SerbianScript = 'latin' | 'cyrillic';
+
+export interface TranscriptionOptions extends RequestOptions {
+  // Script for Serbian transcripts; other languages are unaffected.
+  serbianScript?: SerbianScript;
+}
+
+export interface SpeechOptions extends RequestOptions {
+  // Prebuilt voice name; DEFAULT_VOICE when omitted.
+  voiceName?: string;
+  // Free-form delivery instruction such as "calm" or "news anchor".
+  style?: string;
+  // Multi-speaker narration: the text is a "Speaker: line" dialogue and each
+  // speaker label is read with its own voice.
+  speakerVoices?: SpeakerVoice[];
+}
+
+export interface SpeakerVoice {
+  speaker: string;
+  voiceName: string;
+}
+
+export type DubbingClipStatus = 'fit' | 'stretched' | 'overflow';
+
+// Placement of one narrated segment on the dubbing timeline.
+export interface DubbingClip {
+  index: number;
+  // Start on the timeline and room until the next segment, in seconds.
+  start: number;
+  slot: number;
+  // Length of the narration as generated, before any time-stretch.
+  naturalDuration: number;
+  // Speed-up applied to fit the slot (1 = unchanged).
+  stretchRatio: number;
+  status: DubbingClipStatus;
+}
+
+// One generated narration, kept so several voices can be compared.
+export interface NarrationTake {
+  id: string;
+  voiceName: string;
+  style: string;
+  // The translation text that was narrated; a mismatch means the take is stale.
+  text: string;
+  audio: AudioInfo;
+  createdAt: number;
+  // Set for time-aligned dubbing tracks.
+  dubbingClips?: DubbingClip[];
+  // Some or all of the audio came from the result cache.
+  fromCache?: boolean;
+}
+
+export type SpeechProviderId = 'gemini' | 'mock';
+
+// Backend for the transcribe → translate → narrate pipeline. `generateSpeech`
+// resolves to base64-encoded 16-bit mono PCM at 24 kHz.
+export interface SpeechProvider {
+  id: SpeechProviderId;
+  // Model behind each operation; part of the result cache keys.
+  models: Record<ServiceOperation, string>;
+  // `sourceLanguageCode` is a language code or AUTO_DETECT_LANGUAGE.
+  transcribeAudio: (
+    audioBase64: string,
+    mimeType: string,
+    sourceLanguageCode?: string,
+    options?: TranscriptionOptions
+  ) => Promise<Transcript>;
+  translateText: (
+    source: Transcript,
+    targetLanguages: Language[],
+    options?: TranslationOptions
+  ) => Promise<Translation[]>;
+  generateSpeech: (text: string, options?: SpeechOptions) => Promise<string>;
+  // Same audio as `generateSpeech`, delivered as base64 PCM pieces while it is
+  // generated. Optional; callers fall back to `generateSpeech` without it.
+  generateSpeechStream?: (
+    text: string,
+    options?: SpeechOptions
+  ) => AsyncIterable<string>;
+}
+
+export interface LanguagePreset {
+  id: string;
+  name: string;
+  codes: string[];
+  // Built-in presets ship with the app and can't be deleted.
+  builtIn?: boolean;
+}
+
+export type ChunkStatus = 'pending' | 'running' | 'done' | 'error';
+
+export interface ChunkProgress {
+  index: number;
+  // Chunk position in the source audio, in seconds.
+  start: number;
+  end: number;
+  status: ChunkStatus;
+}
+
+// A saved state of an editable text (transcript or translation).
+export interface TextVersion {
+  id: string;
+  createdAt: number;
+  // What produced the version, e.g. "Transkripcija" or "Izmena".
+  label: string;
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+// A full working session as restored from or saved to local storage.
+export interface ProjectSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  sourceLanguageCode: string;
+  audioFile: File | null;
+  transcription: Transcript | null;
+  translations: Translation[];
+  history: Record<string, TextVersion[]>;
+  // Narration takes per translation language code, newest first.
+  narrations: Record<string, NarrationTake[]>;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  languageCodes: string[];
+  // Approximate stored size including audio blobs.
+  sizeBytes: number;
+}
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+}
+
+export type ExportFormat = 'wav' | 'mp3';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  sampleRate: number;
+  stereo: boolean;
+  // MP3 only.
+  bitrateKbps: number;
+  // File name template with {placeholders}, without extension.
+  fileNameTemplate: string;
+}
+
+export interface ExportMetadata {
+  title: string;
+  languageName: string;
+  projectName: string;
+}
+
+// Cleanup applied to the input audio before transcription.
+export interface PreprocessOptions {
+  // Kept range of the recording, in seconds.
+  trimStart: number;
+  trimEnd: number;
+  normalize: boolean;
+  noiseGate: boolean;
+  // Shortens pauses found by voice-activity detection.
+  removePauses: boolean;
+}
+
+// A term with its required rendering per target language. "Do not
+// translate" entries must appear unchanged in every translation.
+export interface GlossaryEntry {
+  id: string;
+  term: string;
+  // Target language code → term to use.
+  translations: Record<string, string>;
+  doNotTranslate: boolean;
+  note?: string;
+}
+
+export interface TranslationOptions extends RequestOptions {
+  glossary?: GlossaryEntry[];
+}
+
+// A glossary term found in a source segment whose translation lacks the
+// required rendering.
+export interface GlossaryViolation {
+  entryId: string;
+  term: string;
+  expected: string;
+  // Index into the translation's segments, or -1 for untimed text.
+  segmentIndex: number;
+}
+
+// Result of the optional QA pass on one translation.
+export interface QualityReport {
+  // The translation text that was checked; the report is stale once it changes.
+  checkedText: string;
+  // Translated back into the source language, one entry per segment (or a
+  // single entry for untimed text).
+  backTranslation: string[];
+  // 0–1 resemblance between the back-translation and the source.
+  similarity: number;
+  // Translation length over source length, in characters.
+  lengthRatio: number;
+  lengthOutliers: { segmentIndex: number; ratio: number }[];
+  // Segments left identical to the source.
+  untranslatedSegments: number[];
+  // Set when the text looks like another language (a code) or the wrong
+  // writing system ('script').
+  wrongLanguage: string | null;
+}
@@ -0,0 +1,93 @@
+export const createAbortError = () =>
+  new DOMException('The operation was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+// Maps items with at most `limit` calls in flight. Stops starting new work
+// once `signal` is aborted; results keep the input order.
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      throwIfAborted(signal);
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  throwIfAborted(signal);
+  return results;
+};
+
+// Rejects as soon as `signal` aborts, even if `promise` is still pending. The
+// underlying work keeps running; its result is simply ignored.
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal) => {
+  if (!signal) return promise;
+  throwIfAborted(signal);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() =>
+      signal.removeEventListener('abort', onAbort)
+    );
+  });
+};
+
+// Resolves after `ms`, or rejects with an AbortError as soon as `signal` aborts.
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    throwIfAborted(signal);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+  signal?: AbortSignal;
+}
+
+// Calls `fn` until it succeeds, `shouldRetry` rejects the error or attempts
+// run out. Waits use "full jitter" (a random time up to the exponential
+// bound) so parallel callers don't retry in lockstep. Aborts are never retried.
+export const retryWithBackoff = async <T>(
+  fn: () => Promise<T>,
+  { maxAttempts, baseDelayMs, maxDelayMs, shouldRetry, signal }: RetryOptions
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await fn();
+    } catch (error) {
+      if (isAbortError(error) || attempt >= maxAttempts || !shouldRetry(error)) {
+        throw error;
+      }
+      const bound = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      await sleep(Math.random() * bound, signal);
+    }
+  }
+};
@@ -0,0 +1,137 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { ExportMetadata, ExportOptions } from '../types';
+import { parseWav, pcmToWavBlob, WavInfo } from './audioUtils';
+
+const MP3_FRAME_SAMPLES = 1152;
+
+const STORAGE_KEY = 'exportOptions';
+
+// Resamples and up/down-mixes through an OfflineAudioContext, which uses the
+// browser's own high-quality resampler.
+const renderPcm = async (
+  samples: Int16Array,
+  sourceRate: number,
+  sourceChannels: number,
+  targetRate: number,
+  targetChannels: number
+): Promise<Int16Array[]> => {
+  const frames = Math.floor(samples.length / sourceChannels);
+  const length = Math.ceil((frames * targetRate) / sourceRate);
+  const context = new OfflineAudioContext(targetChannels, length, targetRate);
+  const buffer = context.createBuffer(sourceChannels, frames, sourceRate);
+  for (let channel = 0; channel < sourceChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < frames; i++) {
+      data[i] = samples[i * sourceChannels + channel] / 32768;
+    }
+  }
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  const rendered = await context.startRendering();
+
+  return Array.from({ length: targetChannels }, (_, channel) => {
+    const data = rendered.getChannelData(channel);
+    const pcm = new Int16Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      const s = Math.max(-1, Math.min(1, data[i]));
+      pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    }
+    return pcm;
+  });
+};
+
+const interleave = (channels: Int16Array[]): Int16Array => {
+  if (channels.length === 1) return channels[0];
+  const result = new Int16Array(channels[0].length * channels.length);
+  for (let i = 0; i < channels[0].length; i++) {
+    for (let c = 0; c < channels.length; c++) {
+      result[i * channels.length + c] = channels[c][i];
+    }
+  }
+  return result;
+};
+
+const encodeMp3 = (
+  channels: Int16Array[],
+  sampleRate: number,
+  bitrateKbps: number
+): Blob => {
+  const encoder = new Mp3Encoder(channels.length, sampleRate, bitrateKbps);
+  const parts: Uint8Array[] = [];
+  for (let i = 0; i < channels[0].length; i += MP3_FRAME_SAMPLES) {
+    const left = channels[0].subarray(i, i + MP3_FRAME_SAMPLES);
+    const right = channels[1]?.subarray(i, i + MP3_FRAME_SAMPLES);
+    const frame = encoder.encodeBuffer(left, right);
+    if (frame.length > 0) parts.push(frame);
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) parts.push(tail);
+  return new Blob(parts, { type: 'audio/mpeg' });
+};
+
+const toWavInfo = (metadata: ExportMetadata): WavInfo => ({
+  INAM: metadata.title,
+  IPRD: metadata.projectName,
+  ICMT: `Jezik: ${metadata.languageName}`,
+  ICRD: new Date().toISOString().slice(0, 10),
+  ISFT: 'AI Audio prevodilac & narator',
+});
+
+// Converts a narration WAV into the requested format, rate and channel layout.
+export const exportNarration = async (
+  wav: Blob,
+  options: ExportOptions,
+  metadata: ExportMetadata
+): Promise<Blob> => {
+  const { samples, sampleRate, numChannels } = parseWav(await wav.arrayBuffer());
+  const targetChannels = options.stereo ? 2 : 1;
+  // Narrations are mono, so the common "keep as is" case needs no rendering.
+  const channels =
+    options.sampleRate === sampleRate && numChannels === 1 && !options.stereo
+      ? [samples]
+      : await renderPcm(
+          samples,
+          sampleRate,
+          numChannels,
+          options.sampleRate,
+          targetChannels
+        );
+
+  if (options.format === 'mp3') {
+    return encodeMp3(channels, options.sampleRate, options.bitrateKbps);
+  }
+  return pcmToWavBlob(
+    interleave(channels),
+    options.sampleRate,
+    channels.length,
+    toWavInfo(metadata)
+  );
+};
+
+// Fills {placeholders} and strips characters that aren't safe in file names.
+export const renderFileName = (
+  template: string,
+  values: Record<string, string>
+): string => {
+  const name = template
+    .replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match)
+    .replace(/[\\/:*?"<>|]+/g, '_')
+    .trim();
+  return name || 'naracija';
+};
+
+export const loadExportOptions = (): ExportOptions | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ExportOptions) : null;
+  } catch (error) {
+    console.error('Error loading export options:', error);
+    return null;
+  }
+};
+
+export const saveExportOptions = (options: ExportOptions) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+};
@@ -0,0 +1,237 @@
+import { LocalizedError } from '../services/serviceErrors';
+
+export interface AudioManagerState {
+  // Clip that is playing or paused, if any.
+  activeId: string | null;
+  isPlaying: boolean;
+  // Duration of the active clip; 0 while it is still decoding or streaming.
+  duration: number;
+  playbackRate: number;
+  volume: number;
+}
+
+export interface AudioManager {
+  getContext: () => AudioContext;
+  // Node to connect sources to; applies the shared volume.
+  getOutput: () => AudioNode;
+  getState: () => AudioManagerState;
+  // Current position of the active clip in seconds.
+  getPosition: () => number;
+  subscribe: (listener: (state: AudioManagerState) => void) => () => void;
+  // Plays `blob` under `id`, stopping whatever else was playing. Playing the
+  // paused clip again resumes it. Rejects with a LocalizedError when the
+  // audio can't be decoded, leaving nothing active.
+  play: (id: string, blob: Blob, offset?: number) => Promise<void>;
+  pause: () => void;
+  stop: () => void;
+  seek: (seconds: number) => void;
+  setPlaybackRate: (rate: number) => void;
+  setVolume: (volume: number) => void;
+  // Registers playback the manager doesn't drive itself, such as a
+  // narration stream, so starting another clip interrupts it.
+  claim: (id: string, stop: () => void) => void;
+  release: (id: string) => void;
+  // Decoded audio, cached per blob.
+  decode: (blob: Blob) => Promise<AudioBuffer>;
+}
+
+// One AudioContext and one playing clip for the whole app, so starting any
+// player stops the others.
+const createAudioManager = (): AudioManager => {
+  let context: AudioContext | null = null;
+  let gain: GainNode | null = null;
+  const buffers = new WeakMap<Blob, Promise<AudioBuffer>>();
+  const listeners = new Set<(state: AudioManagerState) => void>();
+  let state: AudioManagerState = {
+    activeId: null,
+    isPlaying: false,
+    duration: 0,
+    playbackRate: 1,
+    volume: 1,
+  };
+  let buffer: AudioBuffer | null = null;
+  let source: AudioBufferSourceNode | null = null;
+  let stopExternal: (() => void) | null = null;
+  // Position at `startedAt` on the context clock.
+  let offset = 0;
+  let startedAt = 0;
+
+  const setState = (changes: Partial<AudioManagerState>) => {
+    state = { ...state, ...changes };
+    listeners.forEach((listener) => listener(state));
+  };
+
+  // Created on first use. A context created before any user gesture starts
+  // suspended and is resumed by a later call from a click handler.
+  const getContext = () => {
+    if (!context) {
+      context = new (window.AudioContext || (window as any).webkitAudioContext)();
+      gain = context.createGain();
+      gain.connect(context.destination);
+    }
+    if (context.state === 'suspended') context.resume();
+    return context;
+  };
+
+  const getPosition = () => {
+    if (!state.isPlaying || !context) return offset;
+    return Math.min(
+      state.duration,
+      offset + (context.currentTime - startedAt) * state.playbackRate
+    );
+  };
+
+  const halt = () => {
+    if (source) {
+      source.onended = null;
+      source.stop();
+      source.disconnect();
+      source = null;
+    }
+    if (stopExternal) {
+      const stopStream = stopExternal;
+      stopExternal = null;
+      stopStream();
+    }
+  };
+
+  const start = () => {
+    const ctx = getContext();
+    if (!buffer) return;
+    source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = state.playbackRate;
+    source.connect(gain!);
+    source.onended = () => {
+      source = null;
+      offset = 0;
+      setState({ isPlaying: false });
+    };
+    startedAt = ctx.currentTime;
+    source.start(0, offset);
+    setState({ isPlaying: true });
+  };
+
+  const decode = (blob: Blob) => {
+    let decoded = buffers.get(blob);
+    if (!decoded) {
+      decoded = blob
+        .arrayBuffer()
+        .then((data) => getContext().decodeAudioData(data));
+      buffers.set(blob, decoded);
+      // A failed decode may succeed later, e.g. once the context is running.
+      decoded.catch(() => buffers.delete(blob));
+    }
+    return decoded;
+  };
+
+  const play = async (id: string, blob: Blob, from?: number) => {
+    if (id === state.activeId && !state.isPlaying && from === undefined && buffer) {
+      start();
+      return;
+    }
+    halt();
+    offset = from ?? 0;
+    buffer = null;
+    setState({ activeId: id, isPlaying: false, duration: 0 });
+    let decoded: AudioBuffer;
+    try {
+      decoded = await decode(blob);
+    } catch (error) {
+      console.error('Error decoding audio:', error);
+      if (state.activeId === id) setState({ activeId: null, isPlaying: false });
+      throw new LocalizedError('player.decodeFailed');
+    }
+    // Another clip may have been started while this one was decoding.
+    if (state.activeId !== id) return;
+    buffer = decoded;
+    setState({ duration: decoded.duration });
+    start();
+  };
+
+  const pause = () => {
+    // Streams can't be resumed, so pausing one ends it.
+    if (stopExternal) {
+      stop();
+      return;
+    }
+    if (!state.isPlaying || !source) return;
+    offset = getPosition();
+    halt();
+    setState({ isPlaying: false });
+  };
+
+  const stop = () => {
+    halt();
+    offset = 0;
+    buffer = null;
+    setState({ activeId: null, isPlaying: false, duration: 0 });
+  };
+
+  const seek = (seconds: number) => {
+    if (!buffer) return;
+    const wasPlaying = state.isPlaying && source !== null;
+    halt();
+    offset = Math.max(0, Math.min(seconds, buffer.duration));
+    if (wasPlaying) {
+      start();
+    } else {
+      setState({});
+    }
+  };
+
+  const setPlaybackRate = (rate: number) => {
+    // Re-anchor so the position stays continuous across the change.
+    offset = getPosition();
+    if (context) startedAt = context.currentTime;
+    if (source) source.playbackRate.value = rate;
+    setState({ playbackRate: rate });
+  };
+
+  const setVolume = (volume: number) => {
+    getContext();
+    gain!.gain.value = volume;
+    setState({ volume });
+  };
+
+  const claim = (id: string, stopStream: () => void) => {
+    halt();
+    buffer = null;
+    offset = 0;
+    stopExternal = stopStream;
+    setState({ activeId: id, isPlaying: true, duration: 0 });
+  };
+
+  const release = (id: string) => {
+    if (state.activeId !== id || !stopExternal) return;
+    stopExternal = null;
+    setState({ activeId: null, isPlaying: false });
+  };
+
+  return {
+    getContext,
+    getOutput: () => {
+      getContext();
+      return gain!;
+    },
+    getState: () => state,
+    getPosition,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    play,
+    pause,
+    stop,
+    seek,
+    setPlaybackRate,
+    setVolume,
+    claim,
+    release,
+    decode,
+  };
+};
+
+export const audioManager = createAudioManager();
@@ -0,0 +1,204 @@
+import { PreprocessOptions } from '../types';
+import {
+  MAX_PAUSE_SECONDS,
+  NOISE_GATE_MARGIN_DB,
+  NORMALIZE_PEAK_LIMIT,
+  NORMALIZE_TARGET_DB,
+  PREPROCESS_FRAME_SECONDS,
+  SILENCE_THRESHOLD_DB,
+  VAD_MARGIN_DB,
+} from '../constants';
+import { frameRms } from './audioUtils';
+
+// Gated frames are attenuated rather than muted, which sounds less choppy.
+const GATE_FLOOR_GAIN = 0.1;
+// Speech gaps shorter than this are bridged so words aren't split up.
+const VAD_HANGOVER_SECONDS = 0.3;
+// Kept before the first and after the last voiced frame when trimming.
+const TRIM_PADDING_SECONDS = 0.1;
+
+const toDb = (level: number) => 20 * Math.log10(Math.max(level, 1e-10));
+const fromDb = (db: number) => Math.pow(10, db / 20);
+
+const frameSize = (sampleRate: number) =>
+  Math.max(1, Math.round(PREPROCESS_FRAME_SECONDS * sampleRate));
+
+// RMS level of each frame in dBFS.
+const frameLevels = (samples: Float32Array, sampleRate: number) => {
+  const size = frameSize(sampleRate);
+  const levels = new Float32Array(Math.ceil(samples.length / size));
+  for (let f = 0; f < levels.length; f++) {
+    levels[f] = toDb(frameRms(samples, f * size, size));
+  }
+  return levels;
+};
+
+// The quietest tenth of the frames approximates the background noise.
+const noiseFloor = (levels: Float32Array) => {
+  if (levels.length === 0) return SILENCE_THRESHOLD_DB;
+  const sorted = Float32Array.from(levels).sort();
+  return sorted[Math.floor(sorted.length * 0.1)];
+};
+
+// Range between the first and last frame above SILENCE_THRESHOLD_DB, in
+// seconds, or the whole recording if nothing is that loud.
+export const detectSpeechBounds = (
+  samples: Float32Array,
+  sampleRate: number
+): { start: number; end: number } => {
+  const duration = samples.length / sampleRate;
+  const levels = frameLevels(samples, sampleRate);
+  const first = levels.findIndex((level) => level > SILENCE_THRESHOLD_DB);
+  if (first < 0) return { start: 0, end: duration };
+  let last = levels.length - 1;
+  while (levels[last] <= SILENCE_THRESHOLD_DB) last--;
+  return {
+    start: Math.max(0, first * PREPROCESS_FRAME_SECONDS - TRIM_PADDING_SECONDS),
+    end: Math.min(
+      duration,
+      (last + 1) * PREPROCESS_FRAME_SECONDS + TRIM_PADDING_SECONDS
+    ),
+  };
+};
+
+// Voiced sample ranges: frames clearly above the noise floor, with short
+// gaps between them bridged.
+export const detectVoiceActivity = (
+  samples: Float32Array,
+  sampleRate: number
+): [number, number][] => {
+  const size = frameSize(sampleRate);
+  const levels = frameLevels(samples, sampleRate);
+  const threshold = Math.max(
+    noiseFloor(levels) + VAD_MARGIN_DB,
+    SILENCE_THRESHOLD_DB
+  );
+  const hangover = Math.round(VAD_HANGOVER_SECONDS / PREPROCESS_FRAME_SECONDS);
+  const ranges: [number, number][] = [];
+  let start = -1;
+  let lastVoiced = -Infinity;
+  for (let f = 0; f < levels.length; f++) {
+    if (levels[f] <= threshold) continue;
+    if (start < 0) {
+      start = f;
+    } else if (f - lastVoiced > hangover) {
+      ranges.push([start * size, (lastVoiced + 1) * size]);
+      start = f;
+    }
+    lastVoiced = f;
+  }
+  if (start >= 0) {
+    ranges.push([start * size, Math.min(samples.length, (lastVoiced + 1) * size)]);
+  }
+  return ranges;
+};
+
+// Attenuates frames near the noise floor. Gains are interpolated between
+// frame centres so the gate opens and closes without clicks.
+export const applyNoiseGate = (
+  samples: Float32Array,
+  sampleRate: number
+): Float32Array => {
+  const size = frameSize(sampleRate);
+  const levels = frameLevels(samples, sampleRate);
+  const threshold = noiseFloor(levels) + NOISE_GATE_MARGIN_DB;
+  const gains = levels.map((level) => (level > threshold ? 1 : GATE_FLOOR_GAIN));
+  const output = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const position = i / size - 0.5;
+    const f = Math.max(0, Math.floor(position));
+    const next = Math.min(gains.length - 1, f + 1);
+    const t = Math.min(1, Math.max(0, position - f));
+    output[i] = samples[i] * (gains[f] + (gains[next] - gains[f]) * t);
+  }
+  return output;
+};
+
+// Shortens pauses between voiced ranges to MAX_PAUSE_SECONDS, keeping half
+// of the allowed pause on each side of the cut.
+export const removeLongPauses = (
+  samples: Float32Array,
+  sampleRate: number
+): Float32Array => {
+  const ranges = detectVoiceActivity(samples, sampleRate);
+  if (ranges.length === 0) return samples;
+  const half = Math.round((MAX_PAUSE_SECONDS * sampleRate) / 2);
+  const kept: [number, number][] = [];
+  let from = 0;
+  for (let r = 0; r <= ranges.length; r++) {
+    const gapEnd = r < ranges.length ? ranges[r][0] : samples.length;
+    const gapStart = r > 0 ? ranges[r - 1][1] : 0;
+    if (gapEnd - gapStart > 2 * half) {
+      // Leading and trailing silence only keep the half next to speech.
+      kept.push([from, r > 0 ? gapStart + half : 0]);
+      from = r < ranges.length ? gapEnd - half : samples.length;
+    }
+  }
+  kept.push([from, samples.length]);
+
+  const length = kept.reduce((sum, [start, end]) => sum + Math.max(0, end - start), 0);
+  const output = new Float32Array(length);
+  let offset = 0;
+  for (const [start, end] of kept) {
+    if (end <= start) continue;
+    output.set(samples.subarray(start, end), offset);
+    offset += end - start;
+  }
+  return output;
+};
+
+// Scales the recording so its voiced frames average NORMALIZE_TARGET_DB,
+// without pushing any peak past NORMALIZE_PEAK_LIMIT.
+export const normalizeLoudness = (
+  samples: Float32Array,
+  sampleRate: number
+): Float32Array => {
+  const size = frameSize(sampleRate);
+  let sum = 0;
+  let count = 0;
+  let peak = 0;
+  for (let f = 0; f * size < samples.length; f++) {
+    const rms = frameRms(samples, f * size, size);
+    if (toDb(rms) > SILENCE_THRESHOLD_DB) {
+      sum += rms * rms;
+      count++;
+    }
+  }
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  if (count === 0 || peak === 0) return samples;
+  const loudness = Math.sqrt(sum / count);
+  const gain = Math.min(fromDb(NORMALIZE_TARGET_DB) / loudness, NORMALIZE_PEAK_LIMIT / peak);
+  return samples.map((sample) => sample * gain);
+};
+
+// Runs the enabled steps in order: trim, gate, pause removal, normalization.
+// Normalizing last means the gate and VAD see the original levels.
+export const preprocessAudio = (
+  samples: Float32Array,
+  sampleRate: number,
+  options: PreprocessOptions
+): Float32Array => {
+  let output = samples.slice(
+    Math.floor(options.trimStart * sampleRate),
+    Math.ceil(options.trimEnd * sampleRate)
+  );
+  if (options.noiseGate) output = applyNoiseGate(output, sampleRate);
+  if (options.removePauses) output = removeLongPauses(output, sampleRate);
+  if (options.normalize) output = normalizeLoudness(output, sampleRate);
+  return output;
+};
+
+// Peak level per bucket, for drawing a waveform.
+export const computePeaks = (samples: Float32Array, buckets: number): Float32Array => {
+  const peaks = new Float32Array(buckets);
+  const size = samples.length / buckets;
+  for (let b = 0; b < buckets; b++) {
+    const end = Math.min(samples.length, Math.floor((b + 1) * size));
+    for (let i = Math.floor(b * size); i < end; i++) {
+      peaks[b] = Math.max(peaks[b], Math.abs(samples[i]));
+    }
+  }
+  return peaks;
+};
@@ -1,5 +1,7 @@
 
-export const fileToBase64 = (file: File): Promise<string> => {
+import { LocalizedError } from '../services/serviceErrors';
+
+export const fileToBase64 = (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -12,7 +14,7 @@ export const fileToBase64 = (file: File): Promise<string> => {
 };
 
 export const decodeBase64 = (base64: string): Uint8Array => {
-  const binaryString = window.atob(base64);
+  const binaryString = atob(base64);
   const len = binaryString.length;
   const bytes = new Uint8Array(len);
   for (let i = 0; i < len; i++) {
@@ -21,9 +23,47 @@ export const decodeBase64 = (base64: string): Uint8Array => {
   return bytes;
 };
 
-// PCM data is expected to be Int16
-export const pcmToWavBlob = (pcmData: Int16Array, sampleRate: number, numChannels: number): Blob => {
-  const headerSize = 44;
+// RIFF INFO chunk ids, e.g. { INAM: 'Title', ICMT: 'Comment' }.
+export type WavInfo = Partial<Record<'INAM' | 'IPRD' | 'ICMT' | 'ICRD' | 'ISFT' | 'IART', string>>;
+
+// Builds a LIST/INFO chunk; each value is a NUL-terminated, word-aligned string.
+const buildInfoChunk = (info: WavInfo): Uint8Array | null => {
+  const encoder = new TextEncoder();
+  const entries = Object.entries(info)
+    .filter(([, value]) => value)
+    .map(([id, value]) => {
+      const bytes = encoder.encode(value as string);
+      const size = bytes.length + 1;
+      const chunk = new Uint8Array(8 + size + (size % 2));
+      const view = new DataView(chunk.buffer);
+      writeString(view, 0, id);
+      view.setUint32(4, size, true);
+      chunk.set(bytes, 8);
+      return chunk;
+    });
+  if (entries.length === 0) return null;
+
+  const bodySize = 4 + entries.reduce((sum, entry) => sum + entry.length, 0);
+  const list = new Uint8Array(8 + bodySize);
+  const view = new DataView(list.buffer);
+  writeString(view, 0, 'LIST');
+  view.setUint32(4, bodySize, true);
+  writeString(view, 8, 'INFO');
+  let offset = 12;
+  for (const entry of entries) {
+    list.set(entry, offset);
+    offset += entry.length;
+  }
+  return list;
+};
+
+// PCM data is expected to be Int16, interleaved when numChannels > 1. With
+// `info` a LIST/INFO metadata chunk is written before the audio data, so the
+// data no longer starts at byte 44.
+export const pcmToWavBlob = (pcmData: Int16Array, sampleRate: number, numChannels: number, info?: WavInfo): Blob => {
+  const infoChunk = info ? buildInfoChunk(info) : null;
+  const infoSize = infoChunk ? infoChunk.length : 0;
+  const headerSize = 44 + infoSize;
   const dataSize = pcmData.length * 2; // 2 bytes per sample (Int16)
   const fileSize = headerSize + dataSize;
   
@@ -44,10 +84,15 @@ export const pcmToWavBlob = (pcmData: Int16Array, sampleRate: number, numChannel
   view.setUint32(28, sampleRate * numChannels * 2, true); // Byte rate
   view.setUint16(32, numChannels * 2, true); // Block align
   view.setUint16(34, 16, true); // Bits per sample
+
+  // Optional "LIST" metadata sub-chunk
+  if (infoChunk) {
+    new Uint8Array(buffer, 36, infoSize).set(infoChunk);
+  }
   
   // "data" sub-chunk
-  writeString(view, 36, 'data');
-  view.setUint32(40, dataSize, true);
+  writeString(view, 36 + infoSize, 'data');
+  view.setUint32(40 + infoSize, dataSize, true);
 
   // Write PCM data
   for (let i = 0; i < pcmData.length; i++) {
@@ -57,6 +102,51 @@ export const pcmToWavBlob = (pcmData: Int16Array, sampleRate: number, numChannel
   return new Blob([view], { type: 'audio/wav' });
 };
 
+export interface WavData {
+  // Interleaved 16-bit samples.
+  samples: Int16Array;
+  sampleRate: number;
+  numChannels: number;
+}
+
+// Reads a 16-bit PCM WAV, walking the chunks so files with metadata work too.
+// Other sample formats are rejected.
+export const parseWav = (buffer: ArrayBuffer): WavData => {
+  const view = new DataView(buffer);
+  let sampleRate = 0;
+  let numChannels = 1;
+  let bitsPerSample = 16;
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = String.fromCharCode(...new Uint8Array(buffer, offset, 4));
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ') {
+      numChannels = view.getUint16(offset + 10, true);
+      sampleRate = view.getUint32(offset + 12, true);
+      bitsPerSample = view.getUint16(offset + 22, true);
+    } else if (id === 'data' && bitsPerSample === 16) {
+      const length = Math.min(size, buffer.byteLength - offset - 8);
+      const samples = new Int16Array(buffer.slice(offset + 8, offset + 8 + length - (length % 2)));
+      return { samples, sampleRate, numChannels };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  throw new LocalizedError('audio.invalidWav');
+};
+
+// Averages the channels of `wav` into samples in [-1, 1].
+export const wavToMono = ({ samples, numChannels }: WavData): Float32Array => {
+  const mono = new Float32Array(Math.floor(samples.length / numChannels));
+  for (let i = 0; i < mono.length; i++) {
+    let sum = 0;
+    for (let channel = 0; channel < numChannels; channel++) {
+      sum += samples[i * numChannels + channel];
+    }
+    mono[i] = sum / numChannels / 0x8000;
+  }
+  return mono;
+};
+
 function writeString(view: DataView, offset: number, string: string) {
   for (let i = 0; i < string.length; i++) {
     view.setUint8(offset + i, string.charCodeAt(i));
@@ -67,11 +157,148 @@ export const convertUint8ArrayToInt16Array = (uint8: Uint8Array): Int16Array =>
     return new Int16Array(uint8.buffer);
 }
 
+// Joins PCM parts into one buffer with `gapSamples` of silence between them.
+export const concatPcm = (parts: Int16Array[], gapSamples = 0): Int16Array => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0) + gapSamples * Math.max(0, parts.length - 1);
+  const result = new Int16Array(total);
+  let offset = 0;
+  parts.forEach((part, i) => {
+    if (i > 0) offset += gapSamples;
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+// Wraps base64 PCM as returned by SpeechProvider.generateSpeech in a WAV blob.
+export const base64PcmToWavBlob = (base64: string, sampleRate: number): Blob =>
+  pcmToWavBlob(convertUint8ArrayToInt16Array(decodeBase64(base64)), sampleRate, 1);
+
 export const encode = (bytes: Uint8Array): string => {
   let binary = '';
   const len = bytes.byteLength;
   for (let i = 0; i < len; i++) {
     binary += String.fromCharCode(bytes[i]);
   }
-  return window.btoa(binary);
+  return btoa(binary);
+};
+
+export interface AudioChunk {
+  // Position of the chunk audio within the source, in seconds.
+  start: number;
+  end: number;
+  // Where the chunk's own (non-overlapping) part begins; earlier audio repeats
+  // the tail of the previous chunk.
+  nominalStart: number;
+  samples: Int16Array;
+}
+
+export interface ChunkingOptions {
+  sampleRate: number;
+  targetSeconds: number;
+  // Cuts are placed at the quietest frame within ±searchSeconds of the target.
+  searchSeconds: number;
+  overlapSeconds: number;
+}
+
+// Length from the file's metadata, without decoding it. MediaRecorder WebM
+// files report an infinite duration until playback seeks past their end.
+// Resolves to null when the browser can't tell.
+export const getAudioDuration = (file: Blob): Promise<number | null> => new Promise((resolve) => {
+  const url = URL.createObjectURL(file);
+  const audio = new Audio();
+  let settled = false;
+  const finish = (duration: number | null) => {
+    if (settled) return;
+    settled = true;
+    clearTimeout(timer);
+    URL.revokeObjectURL(url);
+    resolve(duration);
+  };
+  const timer = setTimeout(() => finish(null), 5000);
+  audio.preload = 'metadata';
+  audio.onloadedmetadata = () => {
+    if (Number.isFinite(audio.duration)) return finish(audio.duration);
+    audio.ondurationchange = () => {
+      if (Number.isFinite(audio.duration)) finish(audio.duration);
+    };
+    audio.currentTime = Number.MAX_SAFE_INTEGER;
+  };
+  audio.onerror = () => finish(null);
+  audio.src = url;
+});
+
+// Decodes any browser-supported audio file to mono samples at `sampleRate`.
+// decodeAudioData resamples to the context rate; channels are averaged.
+export const decodeAudioToMono = async (file: Blob, sampleRate: number): Promise<Float32Array> => {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const audioBuffer = await context.decodeAudioData(await file.arrayBuffer());
+  const mono = new Float32Array(audioBuffer.length);
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / audioBuffer.numberOfChannels;
+    }
+  }
+  return mono;
+};
+
+export const floatToInt16 = (samples: Float32Array): Int16Array => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm;
+};
+
+export const frameRms = (samples: Float32Array, start: number, length: number): number => {
+  let sum = 0;
+  const end = Math.min(samples.length, start + length);
+  for (let i = start; i < end; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / Math.max(1, end - start));
+};
+
+// Returns the start of the quietest 20 ms frame between `from` and `to`.
+const findQuietestFrame = (samples: Float32Array, from: number, to: number, sampleRate: number): number => {
+  const frame = Math.floor(sampleRate * 0.02);
+  let best = to;
+  let bestRms = Infinity;
+  for (let i = from; i + frame <= to; i += frame) {
+    const rms = frameRms(samples, i, frame);
+    if (rms < bestRms) {
+      bestRms = rms;
+      best = i;
+    }
+  }
+  return best;
+};
+
+// Splits audio at silences near every `targetSeconds`, each chunk starting
+// `overlapSeconds` before its cut so no word is lost at the boundary.
+export const splitAtSilences = (samples: Float32Array, options: ChunkingOptions): AudioChunk[] => {
+  const { sampleRate, targetSeconds, searchSeconds, overlapSeconds } = options;
+  const target = Math.floor(targetSeconds * sampleRate);
+  const search = Math.floor(searchSeconds * sampleRate);
+  const overlap = Math.floor(overlapSeconds * sampleRate);
+
+  const chunks: AudioChunk[] = [];
+  let cut = 0;
+  while (cut < samples.length) {
+    let nextCut = samples.length;
+    if (samples.length - cut > target + search) {
+      nextCut = findQuietestFrame(samples, cut + target - search, cut + target + search, sampleRate);
+    }
+    const start = Math.max(0, cut - overlap);
+    chunks.push({
+      start: start / sampleRate,
+      end: nextCut / sampleRate,
+      nominalStart: cut / sampleRate,
+      samples: floatToInt16(samples.subarray(start, nextCut)),
+    });
+    cut = nextCut;
+  }
+  return chunks;
 };
@@ -0,0 +1,15 @@
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, fileName);
+  // Revoke on the next tick so the browser has picked up the download.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadUrl = (url: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
@@ -0,0 +1,311 @@
+import {
+  GlossaryEntry,
+  GlossaryViolation,
+  Translation,
+  TranscriptSegment,
+} from '../types';
+import { LocalizedError } from '../services/serviceErrors';
+
+const STORAGE_KEY = 'glossary';
+
+const TBX_NAMESPACE = 'urn:iso:std:iso:30042:ed-2';
+const DO_NOT_TRANSLATE = 'doNotTranslate';
+
+export const createGlossaryEntryId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const loadGlossary = (): GlossaryEntry[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading glossary:', error);
+    return [];
+  }
+};
+
+export const saveGlossary = (glossary: GlossaryEntry[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(glossary));
+};
+
+// What the glossary requires in one target language: the term and its
+// required rendering, for entries that say anything about that language.
+export const glossaryTermsFor = (
+  glossary: GlossaryEntry[],
+  languageCode: string
+): { term: string; target: string }[] =>
+  glossary.flatMap((entry) => {
+    const target = entry.doNotTranslate
+      ? entry.term
+      : entry.translations[languageCode]?.trim();
+    return entry.term.trim() && target ? [{ term: entry.term.trim(), target }] : [];
+  });
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches `term` as a whole word or phrase, ignoring case.
+export const termPattern = (term: string, flags = 'iu') =>
+  new RegExp(
+    `(?<![\\p{L}\\p{N}])${escapeRegExp(term.trim())}(?![\\p{L}\\p{N}])`,
+    flags
+  );
+
+// Every glossary term used in a source segment whose translated segment
+// doesn't contain the required rendering. Untimed text is checked as a whole.
+export const checkGlossary = (
+  sourceSegments: TranscriptSegment[],
+  sourceText: string,
+  translation: Translation,
+  glossary: GlossaryEntry[]
+): GlossaryViolation[] => {
+  const pairs =
+    sourceSegments.length > 0 &&
+    sourceSegments.length === translation.segments.length
+      ? sourceSegments.map((segment, i) => ({
+          index: i,
+          source: segment.text,
+          target: translation.segments[i].text,
+        }))
+      : [{ index: -1, source: sourceText, target: translation.text }];
+
+  const violations: GlossaryViolation[] = [];
+  for (const entry of glossary) {
+    const terms = glossaryTermsFor([entry], translation.languageCode)[0];
+    if (!terms) continue;
+    const sourcePattern = termPattern(terms.term);
+    const targetPattern = termPattern(terms.target);
+    for (const pair of pairs) {
+      if (sourcePattern.test(pair.source) && !targetPattern.test(pair.target)) {
+        violations.push({
+          entryId: entry.id,
+          term: terms.term,
+          expected: terms.target,
+          segmentIndex: pair.index,
+        });
+      }
+    }
+  }
+  return violations;
+};
+
+// CSV: term, do_not_translate, note, then one column per language code.
+const CSV_FIXED_COLUMNS = ['term', 'do_not_translate', 'note'];
+
+const csvField = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const parseCsvRows = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim()));
+};
+
+const isTruthy = (value = '') => /^(1|true|yes|da|x)$/i.test(value.trim());
+
+export const toGlossaryCsv = (glossary: GlossaryEntry[]): string => {
+  const codes = [
+    ...new Set(glossary.flatMap((entry) => Object.keys(entry.translations))),
+  ].sort();
+  const header = [...CSV_FIXED_COLUMNS, ...codes];
+  const rows = glossary.map((entry) => [
+    entry.term,
+    entry.doNotTranslate ? '1' : '',
+    entry.note ?? '',
+    ...codes.map((code) => entry.translations[code] ?? ''),
+  ]);
+  return [header, ...rows]
+    .map((row) => row.map(csvField).join(','))
+    .join('\r\n');
+};
+
+// Accepts comma- or semicolon-separated files (as spreadsheet programs in
+// many locales save them). Columns other than the fixed ones are taken as
+// language codes.
+export const parseGlossaryCsv = (text: string): GlossaryEntry[] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const delimiter =
+    firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+  const [header, ...rows] = parseCsvRows(content, delimiter);
+  if (!header) return [];
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const termColumn = columns.indexOf('term');
+  if (termColumn < 0) {
+    throw new LocalizedError('glossary.csvNoTerm');
+  }
+  const dntColumn = columns.indexOf('do_not_translate');
+  const noteColumn = columns.indexOf('note');
+  const languageColumns = columns
+    .map((code, i) => ({ code, i }))
+    .filter(({ code }) => code && !CSV_FIXED_COLUMNS.includes(code));
+
+  return rows
+    .filter((row) => row[termColumn]?.trim())
+    .map((row) => ({
+      id: createGlossaryEntryId(),
+      term: row[termColumn].trim(),
+      doNotTranslate: dntColumn >= 0 && isTruthy(row[dntColumn]),
+      note: noteColumn >= 0 ? row[noteColumn]?.trim() || undefined : undefined,
+      translations: Object.fromEntries(
+        languageColumns
+          .map(({ code, i }) => [code, row[i]?.trim() ?? ''])
+          .filter(([, value]) => value)
+      ),
+    }));
+};
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// TBX-Basic (TBX v3) with one concept per entry; the source term's language
+// section comes first.
+export const toGlossaryTbx = (
+  glossary: GlossaryEntry[],
+  sourceLanguageCode: string
+): string => {
+  const langSec = (code: string, term: string, doNotTranslate = false) =>
+    `      <langSec xml:lang="${escapeXml(code)}">\n` +
+    `        <termSec>\n` +
+    `          <term>${escapeXml(term)}</term>\n` +
+    (doNotTranslate
+      ? `          <termNote type="transferComment">${DO_NOT_TRANSLATE}</termNote>\n`
+      : '') +
+    `        </termSec>\n` +
+    `      </langSec>\n`;
+
+  const concepts = glossary
+    .map(
+      (entry) =>
+        // XML ids can't start with a digit.
+        `    <conceptEntry id="c-${escapeXml(entry.id)}">\n` +
+        (entry.note
+          ? `      <descrip type="definition">${escapeXml(entry.note)}</descrip>\n`
+          : '') +
+        langSec(sourceLanguageCode, entry.term, entry.doNotTranslate) +
+        Object.entries(entry.translations)
+          .filter(([code]) => code !== sourceLanguageCode)
+          .map(([code, term]) => langSec(code, term))
+          .join('') +
+        `    </conceptEntry>\n`
+    )
+    .join('');
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<tbx type="TBX-Basic" style="dca" xml:lang="${escapeXml(sourceLanguageCode)}" xmlns="${TBX_NAMESPACE}">\n` +
+    `  <tbxHeader>\n    <fileDesc>\n      <sourceDesc><p>AI Audio prevodilac</p></sourceDesc>\n    </fileDesc>\n  </tbxHeader>\n` +
+    `  <text>\n  <body>\n${concepts}  </body>\n  </text>\n</tbx>\n`
+  );
+};
+
+// Reads TBX v3 (conceptEntry/langSec/termSec) and the older v2 martif
+// layout (termEntry/langSet/tig). The section in `sourceLanguageCode`, or
+// else the first one, provides the glossary term.
+export const parseGlossaryTbx = (
+  xml: string,
+  sourceLanguageCode: string
+): GlossaryEntry[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new LocalizedError('glossary.tbxInvalid');
+  }
+  const byName = (parent: Element | Document, ...names: string[]) =>
+    names.flatMap((name) => Array.from(parent.getElementsByTagName(name)));
+  const languageOf = (element: Element) =>
+    (
+      element.getAttribute('xml:lang') ??
+      element.getAttributeNS('http://www.w3.org/XML/1998/namespace', 'lang') ??
+      ''
+    ).toLowerCase().split(/[-_]/)[0];
+
+  return byName(doc, 'conceptEntry', 'termEntry').flatMap((concept) => {
+    const sections = byName(concept, 'langSec', 'langSet')
+      .map((section) => {
+        const term = byName(section, 'term')[0]?.textContent?.trim() ?? '';
+        const notes = byName(section, 'termNote', 'descrip').map(
+          (note) => note.textContent?.trim() ?? ''
+        );
+        return {
+          code: languageOf(section),
+          term,
+          doNotTranslate: notes.includes(DO_NOT_TRANSLATE),
+        };
+      })
+      .filter((section) => section.term);
+    const source =
+      sections.find((section) => section.code === sourceLanguageCode) ??
+      sections[0];
+    if (!source) return [];
+    const note = Array.from(concept.children)
+      .find(
+        (child) =>
+          child.localName === 'descrip' &&
+          child.getAttribute('type') === 'definition'
+      )
+      ?.textContent?.trim();
+    return [
+      {
+        id: createGlossaryEntryId(),
+        term: source.term,
+        doNotTranslate: source.doNotTranslate,
+        note: note || undefined,
+        translations: Object.fromEntries(
+          sections
+            .filter((section) => section !== source && section.code)
+            .map((section) => [section.code, section.term])
+        ),
+      },
+    ];
+  });
+};
+
+// Imports keep existing entries; an imported term replaces the entry with
+// the same term.
+export const mergeGlossaries = (
+  current: GlossaryEntry[],
+  imported: GlossaryEntry[]
+): GlossaryEntry[] => {
+  const key = (entry: GlossaryEntry) => entry.term.trim().toLowerCase();
+  const importedKeys = new Set(imported.map(key));
+  return [
+    ...current.filter((entry) => !importedKeys.has(key(entry))),
+    ...imported,
+  ];
+};
@@ -0,0 +1,27 @@
+import { Language, LanguagePreset } from '../types';
+import { LANGUAGES, LANGUAGE_PRESETS } from '../constants';
+
+const STORAGE_KEY = 'languagePresets';
+
+export const loadUserPresets = (): LanguagePreset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as LanguagePreset[]) : [];
+  } catch (error) {
+    console.error('Error loading language presets:', error);
+    return [];
+  }
+};
+
+export const saveUserPresets = (presets: LanguagePreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+export const getAllPresets = (userPresets: LanguagePreset[]) => [
+  ...LANGUAGE_PRESETS,
+  ...userPresets,
+];
+
+// Resolves preset codes to languages in LANGUAGES order, skipping unknown codes.
+export const presetLanguages = (preset: LanguagePreset): Language[] =>
+  LANGUAGES.filter((lang) => preset.codes.includes(lang.code));
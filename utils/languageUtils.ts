@@ -0,0 +1,9 @@
+import { Language } from '../types';
+import { LANGUAGES } from '../constants';
+
+export const findLanguage = (code: string): Language | undefined =>
+  LANGUAGES.find((lang) => lang.code === code);
+
+// Display name for a language code, falling back to the code itself.
+export const languageName = (code: string): string =>
+  findLanguage(code)?.name ?? code;
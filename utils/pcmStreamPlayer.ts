@@ -0,0 +1,65 @@
+import { STREAM_START_DELAY_SECONDS } from '../constants';
+
+export interface PcmStreamPlayer {
+  // Queues 16-bit mono PCM right after everything pushed before it.
+  push: (pcm: Int16Array) => void;
+  // Resolves once all queued audio has played (or right away if none was).
+  finish: () => Promise<void>;
+  stop: () => void;
+}
+
+// Plays PCM as it arrives by scheduling each chunk on the context clock at
+// the exact time the previous one ends, so consecutive chunks join without
+// gaps. If generation falls behind playback, the next chunk starts as soon
+// as it arrives.
+export const createPcmStreamPlayer = (
+  context: AudioContext,
+  sampleRate: number,
+  destination: AudioNode = context.destination
+): PcmStreamPlayer => {
+  const sources: AudioBufferSourceNode[] = [];
+  let nextTime = 0;
+  let stopped = false;
+
+  const push = (pcm: Int16Array) => {
+    if (stopped || pcm.length === 0) return;
+    const buffer = context.createBuffer(1, pcm.length, sampleRate);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < pcm.length; i++) {
+      channel[i] = pcm[i] / 32768;
+    }
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(destination);
+    const startAt = Math.max(
+      nextTime,
+      context.currentTime + STREAM_START_DELAY_SECONDS
+    );
+    source.start(startAt);
+    nextTime = startAt + buffer.duration;
+    sources.push(source);
+  };
+
+  const finish = () =>
+    new Promise<void>((resolve) => {
+      const last = sources[sources.length - 1];
+      if (!last || stopped || context.currentTime >= nextTime) {
+        resolve();
+        return;
+      }
+      last.addEventListener('ended', () => resolve(), { once: true });
+    });
+
+  const stop = () => {
+    stopped = true;
+    for (const source of sources) {
+      try {
+        source.stop();
+      } catch {
+        // Already finished.
+      }
+    }
+  };
+
+  return { push, finish, stop };
+};
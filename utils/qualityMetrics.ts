@@ -0,0 +1,140 @@
+import {
+  QA_LENGTH_RATIO_MAX,
+  QA_LENGTH_RATIO_MIN,
+  QA_MIN_SEGMENT_CHARS,
+} from '../constants';
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const trigrams = (text: string) => {
+  const counts = new Map<string, number>();
+  const padded = ` ${normalize(text)} `;
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    const gram = padded.slice(i, i + 3);
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+};
+
+// Dice coefficient over character trigrams. Trigrams rather than words so
+// inflected forms of the same word still count as similar.
+export const textSimilarity = (a: string, b: string): number => {
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  let total = 0;
+  let shared = 0;
+  gramsA.forEach((count, gram) => {
+    total += count;
+    shared += Math.min(count, gramsB.get(gram) ?? 0);
+  });
+  gramsB.forEach((count) => (total += count));
+  return total === 0 ? 1 : (2 * shared) / total;
+};
+
+// Length ratio overall, plus the segments whose ratio falls outside
+// QA_LENGTH_RATIO_MIN–QA_LENGTH_RATIO_MAX.
+export const lengthRatios = (
+  sourceSegments: string[],
+  translatedSegments: string[]
+) => {
+  const chars = (texts: string[]) =>
+    texts.reduce((sum, text) => sum + text.trim().length, 0);
+  const sourceChars = chars(sourceSegments);
+  const outliers: { segmentIndex: number; ratio: number }[] = [];
+  sourceSegments.forEach((source, i) => {
+    const translated = translatedSegments[i] ?? '';
+    if (source.trim().length < QA_MIN_SEGMENT_CHARS) return;
+    const ratio = translated.trim().length / source.trim().length;
+    if (ratio < QA_LENGTH_RATIO_MIN || ratio > QA_LENGTH_RATIO_MAX) {
+      outliers.push({ segmentIndex: i, ratio });
+    }
+  });
+  return {
+    ratio: sourceChars === 0 ? 1 : chars(translatedSegments) / sourceChars,
+    outliers,
+  };
+};
+
+// Segments of at least a few words that came back unchanged.
+export const untranslatedSegments = (
+  sourceSegments: string[],
+  translatedSegments: string[]
+): number[] =>
+  sourceSegments.flatMap((source, i) =>
+    normalize(source).split(' ').length >= 3 &&
+    normalize(source) === normalize(translatedSegments[i] ?? '')
+      ? [i]
+      : []
+  );
+
+// Writing systems a language is normally written in.
+const SCRIPTS: Record<string, RegExp> = {
+  ru: /\p{Script=Cyrillic}/u,
+  uk: /\p{Script=Cyrillic}/u,
+  bg: /\p{Script=Cyrillic}/u,
+  sr: /[\p{Script=Cyrillic}\p{Script=Latin}]/u,
+  el: /\p{Script=Greek}/u,
+  ar: /\p{Script=Arabic}/u,
+  fa: /\p{Script=Arabic}/u,
+  he: /\p{Script=Hebrew}/u,
+  hi: /\p{Script=Devanagari}/u,
+  bn: /\p{Script=Bengali}/u,
+  pa: /\p{Script=Gurmukhi}/u,
+  th: /\p{Script=Thai}/u,
+  zh: /\p{Script=Han}/u,
+  ja: /[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}]/u,
+  ko: /\p{Script=Hangul}/u,
+};
+const LATIN = /\p{Script=Latin}/u;
+
+// Frequent short words that tell Latin-script languages apart.
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'of', 'to', 'in', 'that', 'it', 'with', 'for'],
+  de: ['der', 'die', 'und', 'ist', 'nicht', 'das', 'mit', 'ein', 'zu', 'ich'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'des', 'une', 'pas', 'que', 'pour'],
+  es: ['el', 'los', 'y', 'es', 'que', 'una', 'por', 'con', 'para', 'las'],
+  it: ['il', 'che', 'di', 'non', 'per', 'una', 'sono', 'gli', 'con', 'della'],
+  pt: ['o', 'os', 'que', 'não', 'uma', 'com', 'para', 'por', 'mais', 'as'],
+  nl: ['de', 'het', 'een', 'en', 'niet', 'van', 'ik', 'dat', 'zijn', 'met'],
+  sr: ['je', 'i', 'da', 'se', 'u', 'na', 'su', 'za', 'ne', 'smo'],
+  hr: ['je', 'i', 'da', 'se', 'u', 'na', 'su', 'za', 'ne', 'smo'],
+  pl: ['nie', 'i', 'się', 'w', 'na', 'jest', 'że', 'to', 'z', 'do'],
+};
+
+// Language of `text` by stopword hits, if it clearly stands out.
+const guessLatinLanguage = (words: string[]): string | null => {
+  const scores = Object.entries(STOPWORDS)
+    .map(([code, list]) => ({
+      code,
+      hits: words.filter((word) => list.includes(word)).length,
+    }))
+    .sort((a, b) => b.hits - a.hits);
+  const [best, second] = scores;
+  return best.hits >= 3 && best.hits >= second.hits * 2 ? best.code : null;
+};
+
+// Returns 'script' when most letters are in a writing system the target
+// language doesn't use, another language's code when Latin-script text
+// clearly reads as that language, or null when nothing looks wrong.
+export const detectWrongLanguage = (
+  text: string,
+  languageCode: string
+): string | null => {
+  const letters = Array.from(text).filter((char) => /\p{L}/u.test(char));
+  if (letters.length < QA_MIN_SEGMENT_CHARS) return null;
+  const script = SCRIPTS[languageCode] ?? LATIN;
+  const inScript = letters.filter((char) => script.test(char)).length;
+  if (inScript / letters.length < 0.5) return 'script';
+
+  if (!(languageCode in STOPWORDS)) return null;
+  const guess = guessLatinLanguage(normalize(text).split(' '));
+  // Serbian and Croatian share their most frequent words.
+  const related = ['sr', 'hr'];
+  if (!guess || guess === languageCode) return null;
+  if (related.includes(guess) && related.includes(languageCode)) return null;
+  return guess;
+};
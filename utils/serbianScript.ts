@@ -0,0 +1,139 @@
+import { SerbianScript, TranscriptSegment } from '../types';
+
+const STORAGE_KEY = 'serbianScript';
+
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', ђ: 'đ', е: 'e', ж: 'ž', з: 'z',
+  и: 'i', ј: 'j', к: 'k', л: 'l', љ: 'lj', м: 'm', н: 'n', њ: 'nj', о: 'o',
+  п: 'p', р: 'r', с: 's', т: 't', ћ: 'ć', у: 'u', ф: 'f', х: 'h', ц: 'c',
+  ч: 'č', џ: 'dž', ш: 'š',
+};
+
+const LATIN_TO_CYRILLIC: Record<string, string> = Object.fromEntries(
+  Object.entries(CYRILLIC_TO_LATIN).map(([cyrillic, latin]) => [
+    latin,
+    cyrillic,
+  ])
+);
+
+// Words whose "dž", "lj" or "nj" spans a prefix boundary and so stays two
+// letters in Cyrillic (nadživeti → надживети, injekcija → ињекција).
+const SPLIT_DIGRAPH_PREFIXES = [
+  'nadž',
+  'podž',
+  'odžive',
+  'injek',
+  'konjug',
+  'konjunk',
+  'vanjez',
+];
+
+// Latin-script tokens left alone: links, addresses and foreign words.
+const FOREIGN_WORD = /^(?:\S*(?:[@/]|:\/\/|www\.)\S*|\S*[qwxy]\S*)$/iu;
+
+const isUpper = (char: string | undefined) =>
+  !!char && char !== char.toLowerCase() && char === char.toUpperCase();
+
+// Capitalizes a Latin digraph the way its neighbours are written: "LJUBAV"
+// in all-caps text, "Ljubav" otherwise.
+const matchCase = (latin: string, upper: boolean, allCaps: boolean) => {
+  if (!upper) return latin;
+  return allCaps
+    ? latin.toUpperCase()
+    : latin[0].toUpperCase() + latin.slice(1);
+};
+
+export const toLatin = (text: string): string => {
+  const chars = [...text];
+  return chars
+    .map((char, i) => {
+      const lower = char.toLowerCase();
+      const latin = CYRILLIC_TO_LATIN[lower];
+      if (latin === undefined) return char;
+      const allCaps =
+        isUpper(chars[i + 1]) ||
+        (isUpper(chars[i - 1]) && !/\p{L}/u.test(chars[i + 1] ?? ''));
+      return matchCase(latin, char !== lower, allCaps);
+    })
+    .join('');
+};
+
+const wordToCyrillic = (word: string): string => {
+  const lowerWord = word.toLowerCase();
+  const splitAt = SPLIT_DIGRAPH_PREFIXES.find((prefix) =>
+    lowerWord.startsWith(prefix)
+  );
+  // Index of the first letter of a digraph that must not be joined.
+  const keepSplit = splitAt ? splitAt.search(/dž|lj|nj/) : -1;
+  let result = '';
+  for (let i = 0; i < word.length; i++) {
+    const pair = lowerWord.slice(i, i + 2);
+    if (i !== keepSplit && LATIN_TO_CYRILLIC[pair]) {
+      const cyrillic = LATIN_TO_CYRILLIC[pair];
+      result += isUpper(word[i]) ? cyrillic.toUpperCase() : cyrillic;
+      i++;
+      continue;
+    }
+    const cyrillic = LATIN_TO_CYRILLIC[lowerWord[i]];
+    if (cyrillic === undefined) {
+      result += word[i];
+    } else {
+      result += isUpper(word[i]) ? cyrillic.toUpperCase() : cyrillic;
+    }
+  }
+  return result;
+};
+
+export const toCyrillic = (text: string): string =>
+  text
+    .normalize('NFC')
+    .split(/(\s+)/)
+    .map((token) =>
+      /\s/.test(token) || FOREIGN_WORD.test(token)
+        ? token
+        : token.replace(/\p{L}+/gu, wordToCyrillic)
+    )
+    .join('');
+
+export const transliterate = (text: string, script: SerbianScript): string =>
+  script === 'cyrillic' ? toCyrillic(text) : toLatin(text);
+
+// The script most letters are written in, or null for text without any
+// Serbian letters.
+export const detectSerbianScript = (text: string): SerbianScript | null => {
+  const cyrillic = (text.match(/\p{Script=Cyrillic}/gu) ?? []).length;
+  const latin = (text.match(/\p{Script=Latin}/gu) ?? []).length;
+  if (cyrillic === 0 && latin === 0) return null;
+  return cyrillic > latin ? 'cyrillic' : 'latin';
+};
+
+// Text and segments of a transcript or translation in `script`.
+export const transliterateText = <
+  T extends { text: string; segments: TranscriptSegment[] }
+>(
+  value: T,
+  script: SerbianScript
+): T => ({
+  ...value,
+  text: transliterate(value.text, script),
+  segments: value.segments.map((segment) => ({
+    ...segment,
+    text: transliterate(segment.text, script),
+  })),
+});
+
+// The script last chosen for Serbian text; Latin until the user picks one.
+export const getPreferredSerbianScript = (): SerbianScript => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === 'cyrillic'
+      ? 'cyrillic'
+      : 'latin';
+  } catch (error) {
+    console.error('Error loading script preference:', error);
+    return 'latin';
+  }
+};
+
+export const setPreferredSerbianScript = (script: SerbianScript) => {
+  localStorage.setItem(STORAGE_KEY, script);
+};
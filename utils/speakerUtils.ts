@@ -0,0 +1,52 @@
+import { Speaker, TranscriptSegment } from '../types';
+
+export interface SpeakerTurn {
+  speaker?: string;
+  text: string;
+}
+
+export const defaultSpeakerName = (index: number) => `Govornik ${index + 1}`;
+
+// Maps raw speaker labels from the model ("Speaker 1", "A", …) to stable ids
+// in order of first appearance.
+export const assignSpeakers = (
+  labels: (string | undefined)[]
+): { ids: (string | undefined)[]; speakers: Speaker[] } => {
+  const byLabel = new Map<string, Speaker>();
+  const ids = labels.map((label) => {
+    const key = label?.trim();
+    if (!key) return undefined;
+    if (!byLabel.has(key)) {
+      byLabel.set(key, {
+        id: `speaker-${byLabel.size + 1}`,
+        name: defaultSpeakerName(byLabel.size),
+      });
+    }
+    return byLabel.get(key)!.id;
+  });
+  return { ids, speakers: [...byLabel.values()] };
+};
+
+export const speakerName = (speakers: Speaker[], id?: string) =>
+  speakers.find((speaker) => speaker.id === id)?.name ?? '';
+
+// Merges consecutive segments of the same speaker into one turn.
+export const toSpeakerTurns = (segments: TranscriptSegment[]): SpeakerTurn[] =>
+  segments.reduce<SpeakerTurn[]>((turns, segment) => {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.text = `${last.text} ${segment.text.trim()}`;
+    } else {
+      turns.push({ speaker: segment.speaker, text: segment.text.trim() });
+    }
+    return turns;
+  }, []);
+
+// Speaker ids that actually occur in the segments, in order of appearance.
+export const speakersInSegments = (segments: TranscriptSegment[]): string[] => [
+  ...new Set(
+    segments
+      .map((segment) => segment.speaker)
+      .filter((id): id is string => !!id)
+  ),
+];
@@ -0,0 +1,158 @@
+import { Speaker, TranscriptSegment } from '../types';
+import { assignSpeakers, speakerName } from './speakerUtils';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export const joinSegmentTexts = (texts: string[]): string =>
+  texts
+    .map((text) => text.trim())
+    .filter(Boolean)
+    .join(' ');
+
+// Maps translated segment texts back onto the source timing. Returns an empty
+// list when the counts disagree, since the boundaries can't be trusted then.
+export const alignSegments = (
+  source: TranscriptSegment[],
+  texts: string[]
+): TranscriptSegment[] => {
+  if (source.length === 0 || source.length !== texts.length) return [];
+  return source.map((segment, i) => ({ ...segment, text: texts[i].trim() }));
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// Formats seconds as HH:MM:SS followed by `separator` and milliseconds.
+const formatTimestamp = (seconds: number, separator: string): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+// SRT has no speaker markup, so names are written as a "Name: " prefix.
+export const toSrt = (
+  segments: TranscriptSegment[],
+  speakers: Speaker[] = []
+): string =>
+  segments
+    .map((segment, i) => {
+      const name = speakerName(speakers, segment.speaker);
+      const text = name ? `${name}: ${segment.text.trim()}` : segment.text.trim();
+      return `${i + 1}\n${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(
+        segment.end,
+        ','
+      )}\n${text}\n`;
+    })
+    .join('\n');
+
+// In WebVTT cue text `&` and `<` start markup; escaping `>` as well keeps
+// "-->" out of cues.
+const escapeVtt = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// WebVTT marks speakers with voice spans (<v Name>).
+export const toVtt = (
+  segments: TranscriptSegment[],
+  speakers: Speaker[] = []
+): string =>
+  `WEBVTT\n\n${segments
+    .map((segment) => {
+      const name = speakerName(speakers, segment.speaker);
+      const cue = escapeVtt(segment.text.trim());
+      const text = name ? `<v ${escapeVtt(name)}>${cue}` : cue;
+      return `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(
+        segment.end,
+        '.'
+      )}\n${text}\n`;
+    })
+    .join('\n')}`;
+
+export const subtitleBlob = (
+  segments: TranscriptSegment[],
+  format: SubtitleFormat,
+  speakers: Speaker[] = []
+): Blob =>
+  format === 'srt'
+    ? new Blob([toSrt(segments, speakers)], { type: 'application/x-subrip' })
+    : new Blob([toVtt(segments, speakers)], { type: 'text/vtt' });
+
+// HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm / MM:SS.mmm (WebVTT).
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+const CUE_TIMING = new RegExp(
+  `^\\s*${TIMESTAMP.source}\\s*-->\\s*${TIMESTAMP.source}`
+);
+
+const parseSeconds = (
+  hours: string | undefined,
+  minutes: string,
+  seconds: string,
+  ms: string
+) =>
+  Number(hours ?? 0) * 3600 +
+  Number(minutes) * 60 +
+  Number(seconds) +
+  Number(ms.padEnd(3, '0')) / 1000;
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+export const looksLikeSubtitles = (content: string): boolean =>
+  /^\uFEFF?WEBVTT/.test(content) ||
+  content.split(/\r?\n/).some((line) => CUE_TIMING.test(line));
+
+// Reads SRT or WebVTT cues into segments. Styling tags are dropped; WebVTT
+// voice spans become speakers named after the voice, so subtitles exported
+// by toVtt keep their speaker names.
+export const parseSubtitles = (
+  content: string
+): { segments: TranscriptSegment[]; speakers: Speaker[] } => {
+  const cues: { start: number; end: number; text: string; voice?: string }[] =
+    [];
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    // Headers, NOTE, STYLE and REGION blocks carry no timing.
+    if (timingIndex === -1) continue;
+    const match = lines[timingIndex].match(CUE_TIMING)!;
+    const raw = lines.slice(timingIndex + 1).join(' ');
+    const voice = raw.match(/<v(?:\.[^\s>]*)?\s+([^>]+)>/)?.[1];
+    const text = decodeEntities(
+      raw.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '')
+    )
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (!text) continue;
+    cues.push({
+      start: parseSeconds(match[1], match[2], match[3], match[4]),
+      end: parseSeconds(match[5], match[6], match[7], match[8]),
+      text,
+      voice: voice && decodeEntities(voice).trim(),
+    });
+  }
+
+  const { ids, speakers } = assignSpeakers(cues.map((cue) => cue.voice));
+  const labels = [...new Set(cues.map((cue) => cue.voice).filter(Boolean))];
+  return {
+    segments: cues.map(({ start, end, text }, i) => ({
+      start,
+      end,
+      text,
+      ...(ids[i] && { speaker: ids[i] }),
+    })),
+    speakers: speakers.map((speaker, i) => ({
+      ...speaker,
+      name: labels[i] ?? speaker.name,
+    })),
+  };
+};
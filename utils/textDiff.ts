@@ -0,0 +1,82 @@
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+// Above this many LCS cells the changed middle is shown as one replacement
+// instead, to keep the diff view responsive on long transcripts.
+const MAX_LCS_CELLS = 2_000_000;
+
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+const pushPart = (parts: DiffPart[], op: DiffOp, text: string) => {
+  const last = parts[parts.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else if (text) {
+    parts.push({ op, text });
+  }
+};
+
+// Word-level diff from `before` to `after` using a longest common subsequence.
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, 'equal', a.slice(0, prefix).join(''));
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    pushPart(parts, 'delete', midA.join(''));
+    pushPart(parts, 'insert', midB.join(''));
+  } else {
+    // lcs[i][j] = LCS length of midA[i:] and midB[j:], stored row-major.
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        pushPart(parts, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+        pushPart(parts, 'delete', midA[i++]);
+      } else {
+        pushPart(parts, 'insert', midB[j++]);
+      }
+    }
+    pushPart(parts, 'delete', midA.slice(i).join(''));
+    pushPart(parts, 'insert', midB.slice(j).join(''));
+  }
+
+  pushPart(parts, 'equal', a.slice(a.length - suffix).join(''));
+  return parts;
+};
@@ -0,0 +1,39 @@
+import { Transcript } from '../types';
+import { LocalizedError } from '../services/serviceErrors';
+import {
+  joinSegmentTexts,
+  looksLikeSubtitles,
+  parseSubtitles,
+} from './subtitleUtils';
+
+export const TEXT_IMPORT_ACCEPT = '.txt,.srt,.vtt,text/plain,text/vtt';
+
+// Turns pasted text or the contents of a .txt, .srt or .vtt file into a
+// transcript, as if it had been transcribed. Subtitles keep their cue timing,
+// so translations and narration line up with it; plain text has no segments.
+export const transcriptFromText = (
+  content: string,
+  languageCode: string
+): Transcript => {
+  if (looksLikeSubtitles(content)) {
+    const { segments, speakers } = parseSubtitles(content);
+    if (segments.length === 0) {
+      throw new LocalizedError('textImport.noCues');
+    }
+    return {
+      text: joinSegmentTexts(segments.map((segment) => segment.text)),
+      segments,
+      speakers,
+      languageCode,
+    };
+  }
+
+  const text = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  if (!text) throw new LocalizedError('textImport.empty');
+  return { text, segments: [], speakers: [], languageCode };
+};
@@ -0,0 +1,62 @@
+// Tempo change without pitch change using WSOLA (waveform-similarity
+// overlap-add): 30 ms Hann frames are laid down at a fixed output hop, each
+// taken from near its nominal input position at the offset that best lines up
+// with the previous frame's natural continuation.
+
+const FRAME_SECONDS = 0.03;
+const TOLERANCE_SECONDS = 0.01;
+
+// `ratio` > 1 speeds up (shorter output), < 1 slows down.
+export const timeStretch = (
+  input: Float32Array,
+  ratio: number,
+  sampleRate: number
+): Float32Array => {
+  const outLength = Math.ceil(input.length / ratio);
+  const frame = Math.round(FRAME_SECONDS * sampleRate);
+  if (Math.abs(ratio - 1) < 0.01 || input.length < frame * 2) {
+    return input.slice(0, outLength);
+  }
+
+  const hop = Math.floor(frame / 2);
+  const tolerance = Math.round(TOLERANCE_SECONDS * sampleRate);
+  const window = new Float32Array(frame);
+  for (let i = 0; i < frame; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frame);
+  }
+
+  const output = new Float32Array(outLength + frame);
+  const lastStart = input.length - frame;
+  let previous = 0;
+
+  for (let k = 0; k * hop < outLength; k++) {
+    const nominal = Math.min(lastStart, Math.round(k * hop * ratio));
+    let best = nominal;
+
+    if (k > 0) {
+      const natural = Math.min(lastStart, previous + hop);
+      let bestCorrelation = -Infinity;
+      const from = Math.max(0, nominal - tolerance);
+      const to = Math.min(lastStart, nominal + tolerance);
+      for (let candidate = from; candidate <= to; candidate++) {
+        let correlation = 0;
+        // Every other sample is plenty for speech and halves the cost.
+        for (let i = 0; i < hop; i += 2) {
+          correlation += input[candidate + i] * input[natural + i];
+        }
+        if (correlation > bestCorrelation) {
+          bestCorrelation = correlation;
+          best = candidate;
+        }
+      }
+    }
+
+    const offset = k * hop;
+    for (let i = 0; i < frame; i++) {
+      output[offset + i] += input[best + i] * window[i];
+    }
+    previous = best;
+  }
+
+  return output.subarray(0, outLength);
+};
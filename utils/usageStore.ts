@@ -0,0 +1,215 @@
+import { ModelPrice, ServiceOperation, UsageReport } from '../types';
+import { MODEL_PRICES, USAGE_HISTORY_DAYS } from '../constants';
+import {
+  addUsage,
+  emptyTotals,
+  estimateCost,
+  UsageTotals,
+} from '../services/usageTracking';
+import { Translate } from '../i18n';
+
+// API usage of the web app, summed per day, project, operation and model, and
+// the budgets it is checked against. Both live in localStorage; costs are
+// fixed when usage is recorded, so editing prices doesn't rewrite history.
+
+const USAGE_KEY = 'apiUsage';
+const SETTINGS_KEY = 'usageSettings';
+
+export interface UsageBucket extends UsageTotals {
+  // Local date, YYYY-MM-DD.
+  day: string;
+  // Null for usage outside a project, e.g. before the first transcription.
+  projectId: string | null;
+  projectName: string;
+  operation: ServiceOperation;
+  model: string;
+}
+
+export interface UsageSettings {
+  // Budgets in USD; unset means no limit.
+  sessionBudgetUsd?: number;
+  dailyBudgetUsd?: number;
+  // Overrides of MODEL_PRICES.
+  prices: Record<string, ModelPrice>;
+}
+
+export interface BudgetWarning {
+  scope: 'session' | 'daily';
+  budgetUsd: number;
+  spentUsd: number;
+  estimateUsd: number;
+}
+
+let currentProject: { id: string; name: string } | null = null;
+const listeners = new Set<() => void>();
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch (error) {
+    console.error(`Error loading ${key}:`, error);
+    return fallback;
+  }
+};
+
+export const toDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+};
+
+export const loadUsage = (): UsageBucket[] => readJson(USAGE_KEY, []);
+
+export const loadUsageSettings = (): UsageSettings =>
+  readJson<UsageSettings>(SETTINGS_KEY, { prices: {} });
+
+export const saveUsageSettings = (settings: UsageSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  listeners.forEach((listener) => listener());
+};
+
+export const getModelPrices = (): Record<string, ModelPrice> => ({
+  ...MODEL_PRICES,
+  ...loadUsageSettings().prices,
+});
+
+// Usage recorded from now on is attributed to this project.
+export const setUsageProject = (
+  project: { id: string; name: string } | null
+) => {
+  currentProject = project;
+};
+
+export const subscribeUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const recordUsage = (usage: UsageReport) => {
+  const day = toDayKey(Date.now());
+  const oldest = toDayKey(Date.now() - USAGE_HISTORY_DAYS * 86_400_000);
+  const projectId = currentProject?.id ?? null;
+  const buckets = loadUsage().filter((bucket) => bucket.day >= oldest);
+  const index = buckets.findIndex(
+    (bucket) =>
+      bucket.day === day &&
+      bucket.projectId === projectId &&
+      bucket.operation === usage.operation &&
+      bucket.model === usage.model
+  );
+  const bucket: UsageBucket =
+    index === -1
+      ? {
+          ...emptyTotals(),
+          day,
+          projectId,
+          projectName: '',
+          operation: usage.operation,
+          model: usage.model,
+        }
+      : buckets[index];
+  const updated: UsageBucket = {
+    ...bucket,
+    ...addUsage(bucket, usage, estimateCost(usage, getModelPrices())),
+    projectName: currentProject?.name ?? '',
+  };
+  if (index === -1) buckets.push(updated);
+  else buckets[index] = updated;
+  try {
+    localStorage.setItem(USAGE_KEY, JSON.stringify(buckets));
+  } catch (error) {
+    console.error('Error saving API usage:', error);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const clearUsage = () => {
+  localStorage.removeItem(USAGE_KEY);
+  listeners.forEach((listener) => listener());
+};
+
+// Totals grouped by `keyOf`, in order of first appearance.
+export const groupUsage = (
+  buckets: UsageBucket[],
+  keyOf: (bucket: UsageBucket) => string
+): Map<string, UsageTotals> => {
+  const groups = new Map<string, UsageTotals>();
+  for (const bucket of buckets) {
+    const key = keyOf(bucket);
+    const totals = groups.get(key) ?? emptyTotals();
+    groups.set(key, {
+      calls: totals.calls + bucket.calls,
+      inputTokens: totals.inputTokens + bucket.inputTokens,
+      outputTokens: totals.outputTokens + bucket.outputTokens,
+      audioSeconds: totals.audioSeconds + bucket.audioSeconds,
+      costUsd: totals.costUsd + bucket.costUsd,
+    });
+  }
+  return groups;
+};
+
+const spent = (buckets: UsageBucket[]) =>
+  buckets.reduce((sum, bucket) => sum + bucket.costUsd, 0);
+
+// The first budget that `estimateUsd` more would exceed: the current
+// project's, then today's. Without a project the session has spent nothing.
+export const checkBudget = (estimateUsd: number): BudgetWarning | null => {
+  const { sessionBudgetUsd, dailyBudgetUsd } = loadUsageSettings();
+  const buckets = loadUsage();
+  const checks: [BudgetWarning['scope'], number | undefined, number][] = [
+    [
+      'session',
+      sessionBudgetUsd,
+      currentProject
+        ? spent(buckets.filter((b) => b.projectId === currentProject?.id))
+        : 0,
+    ],
+    [
+      'daily',
+      dailyBudgetUsd,
+      spent(buckets.filter((b) => b.day === toDayKey(Date.now()))),
+    ],
+  ];
+  for (const [scope, budgetUsd, spentUsd] of checks) {
+    if (budgetUsd !== undefined && spentUsd + estimateUsd > budgetUsd) {
+      return { scope, budgetUsd, spentUsd, estimateUsd };
+    }
+  }
+  return null;
+};
+
+export const formatUsd = (value: number): string =>
+  `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+
+// Asks before an operation whose estimated usage would exceed a budget.
+// Returns true when no budget is at risk or the user goes ahead anyway.
+export const confirmWithinBudget = (
+  estimates: UsageReport[],
+  t: Translate
+): boolean => {
+  const prices = getModelPrices();
+  const estimateUsd = estimates.reduce(
+    (sum, usage) => sum + estimateCost(usage, prices),
+    0
+  );
+  const warning = checkBudget(estimateUsd);
+  if (!warning) return true;
+  return window.confirm(
+    t(
+      warning.scope === 'session'
+        ? 'usage.sessionBudgetWarning'
+        : 'usage.dailyBudgetWarning',
+      {
+        estimate: formatUsd(warning.estimateUsd),
+        spent: formatUsd(warning.spentUsd),
+        budget: formatUsd(warning.budgetUsd),
+      }
+    )
+  );
+};
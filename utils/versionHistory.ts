@@ -0,0 +1,29 @@
+import { TextVersion, TranscriptSegment } from '../types';
+
+export const TRANSCRIPT_HISTORY_KEY = 'transcript';
+
+export const translationHistoryKey = (languageCode: string) =>
+  `translation:${languageCode}`;
+
+export const createVersion = (
+  label: string,
+  text: string,
+  segments: TranscriptSegment[]
+): TextVersion => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  createdAt: Date.now(),
+  label,
+  text,
+  segments,
+});
+
+// Appends a version unless the text is unchanged from the latest one.
+export const appendVersion = (
+  history: Record<string, TextVersion[]>,
+  key: string,
+  version: TextVersion
+): Record<string, TextVersion[]> => {
+  const versions = history[key] ?? [];
+  if (versions[versions.length - 1]?.text === version.text) return history;
+  return { ...history, [key]: [...versions, version] };
+};
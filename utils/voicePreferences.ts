@@ -0,0 +1,24 @@
+import { DEFAULT_VOICE } from '../constants';
+
+const STORAGE_KEY = 'voicePreferences';
+
+const loadPreferences = (): Record<string, string> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error loading voice preferences:', error);
+    return {};
+  }
+};
+
+// The voice last chosen for a target language, or DEFAULT_VOICE.
+export const getPreferredVoice = (languageCode: string): string =>
+  loadPreferences()[languageCode] ?? DEFAULT_VOICE;
+
+export const setPreferredVoice = (languageCode: string, voiceName: string) => {
+  localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify({ ...loadPreferences(), [languageCode]: voiceName })
+  );
+};